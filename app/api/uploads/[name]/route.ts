@@ -0,0 +1,21 @@
+import { readUpload } from "@/lib/upload-storage";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+  const upload = await readUpload(name);
+
+  if (!upload) {
+    return Response.json({ message: "Image not found" }, { status: 404 });
+  }
+
+  // File names are random and never reused, so the image can't change
+  return new Response(upload.data, {
+    headers: {
+      "Content-Type": upload.contentType,
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,34 @@
+import { isSupportedImageType } from "@/lib/image";
+import { MAX_UPLOAD_SIZE, saveUpload } from "@/lib/upload-storage";
+
+// Accepts a multipart body with the image in a "file" field and responds
+// with the URL it is served from
+export async function POST(request: Request) {
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get("file");
+
+  if (!(file instanceof File)) {
+    return Response.json(
+      { message: 'Expected an image in the "file" field' },
+      { status: 400 }
+    );
+  }
+
+  if (!isSupportedImageType(file.type)) {
+    return Response.json(
+      { message: `Unsupported image type "${file.type}"` },
+      { status: 415 }
+    );
+  }
+
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return Response.json(
+      { message: "The image is too large" },
+      { status: 413 }
+    );
+  }
+
+  const name = await saveUpload(file, file.type);
+
+  return Response.json({ url: `/api/uploads/${name}` }, { status: 201 });
+}
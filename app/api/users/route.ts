@@ -0,0 +1,48 @@
+import { apiClient } from "@/lib/api-client";
+import { isApiError } from "@/lib/api-error";
+import { userSchema } from "@/types/user";
+
+const MAX_BATCH_SIZE = 50;
+
+// GET /api/users?ids=1,2,3 — dummyjson can only look users up one at a time,
+// so the browser's batch (see lib/user-loader) is fanned out from here.
+// Unknown ids are left out of the response.
+export async function GET(request: Request) {
+  const ids = [
+    ...new Set(
+      (new URL(request.url).searchParams.get("ids") ?? "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean)
+    ),
+  ];
+
+  if (ids.length === 0 || ids.length > MAX_BATCH_SIZE) {
+    return Response.json(
+      { message: `Expected between 1 and ${MAX_BATCH_SIZE} ids` },
+      { status: 400 }
+    );
+  }
+
+  const results = await Promise.allSettled(
+    ids.map((id) => apiClient.get(`/users/${id}`, { schema: userSchema }))
+  );
+
+  const failure = results.find(
+    (result): result is PromiseRejectedResult =>
+      result.status === "rejected" &&
+      !(isApiError(result.reason) && result.reason.isNotFound)
+  );
+  if (failure) {
+    return Response.json(
+      { message: String(failure.reason?.message ?? failure.reason) },
+      { status: 502 }
+    );
+  }
+
+  return Response.json({
+    users: results.flatMap((result) =>
+      result.status === "fulfilled" ? [result.value] : []
+    ),
+  });
+}
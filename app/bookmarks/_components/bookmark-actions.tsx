@@ -0,0 +1,75 @@
+"use client";
+
+import { ChangeEvent, useRef } from "react";
+import { Download, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { bookmarkStore } from "@/lib/bookmarks";
+
+const EXPORT_FILE_NAME = "bookmarks.json";
+
+const downloadBookmarks = () => {
+  const blob = new Blob(
+    [JSON.stringify(bookmarkStore.exportBookmarks(), null, 2)],
+    { type: "application/json" }
+  );
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = EXPORT_FILE_NAME;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const BookmarkActions = ({ count }: { count: number }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const importBookmarks = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const data = JSON.parse(await file.text());
+      const added = bookmarkStore.importBookmarks(data);
+      toast("Bookmarks imported", {
+        description: `${added} new ${added === 1 ? "post" : "posts"} added.`,
+      });
+    } catch {
+      toast("Could not import bookmarks", {
+        description: `${file.name} is not an exported bookmark list.`,
+      });
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={downloadBookmarks}
+        disabled={count === 0}
+      >
+        <Download className="size-4" />
+        Export
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+      >
+        <Upload className="size-4" />
+        Import
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={importBookmarks}
+        className="hidden"
+      />
+    </div>
+  );
+};
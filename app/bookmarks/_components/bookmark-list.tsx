@@ -0,0 +1,91 @@
+"use client";
+
+import Link from "next/link";
+import { useQueries, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Error } from "@/components/error";
+import { PostCard } from "@/components/post-card";
+import { PostCardSkeleton } from "@/components/post-card-skeleton";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { getCachedPostData, useSelectPost } from "@/hooks/custom/use-post";
+import { isApiError } from "@/lib/api-error";
+import { bookmarkStore } from "@/lib/bookmarks";
+import { getPost } from "@/lib/queries/posts";
+import { BookmarkActions } from "./bookmark-actions";
+
+export const BookmarkList = () => {
+  const postIds = useLocalStore(bookmarkStore);
+  const queryClient = useQueryClient();
+  const selectPost = useSelectPost();
+  // Same options as the detail page, so opening a bookmark is instant and
+  // bookmarks of posts already seen in a list render straight from the cache
+  const postQueries = useQueries({
+    queries: postIds.map((postId) => ({
+      ...getPost(postId),
+      ...getCachedPostData(queryClient, postId),
+      select: selectPost,
+    })),
+  });
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-lg font-semibold">
+          Bookmarks{" "}
+          <span className="text-muted-foreground">({postIds.length})</span>
+        </h1>
+        <BookmarkActions count={postIds.length} />
+      </div>
+
+      {postIds.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No bookmarks yet.{" "}
+          <Link href="/posts" className="underline underline-offset-2">
+            Browse posts
+          </Link>{" "}
+          and bookmark the ones you want to keep.
+        </p>
+      ) : (
+        <div className="grid auto-rows-min gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {postQueries.map((query, index) => {
+            const postId = postIds[index];
+
+            if (query.status === "pending") {
+              return <PostCardSkeleton key={postId} />;
+            }
+
+            if (query.status === "error") {
+              const isGone = isApiError(query.error) && query.error.isNotFound;
+              return (
+                <div
+                  key={postId}
+                  className="flex flex-col items-center justify-center gap-2"
+                >
+                  <Error
+                    message={
+                      isGone
+                        ? "This post no longer exists."
+                        : "Something went wrong while fetching this post."
+                    }
+                    error={query.error}
+                    onRetry={isGone ? undefined : () => query.refetch()}
+                    isRetrying={query.isFetching}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => bookmarkStore.remove(postId)}
+                  >
+                    Remove bookmark
+                  </Button>
+                </div>
+              );
+            }
+
+            return <PostCard key={postId} post={query.data} />;
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
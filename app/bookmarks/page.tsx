@@ -0,0 +1,6 @@
+import { BookmarkList } from "./_components/bookmark-list";
+
+// Bookmarks only exist in the browser, so there is nothing to prefetch here
+export default function Page() {
+  return <BookmarkList />;
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { RouteError, RouteErrorProps } from "@/components/route-error";
+import { PostNotFound } from "@/app/posts/_components/post-not-found";
+import { isApiError } from "@/lib/api-error";
+
+export default function Error(props: RouteErrorProps) {
+  const { id } = useParams<{ id: string }>();
+
+  if (isApiError(props.error) && props.error.isNotFound) {
+    return <PostNotFound postId={id} />;
+  }
+
+  return (
+    <RouteError
+      {...props}
+      message="Something went wrong while fetching the post."
+    />
+  );
+}
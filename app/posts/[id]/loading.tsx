@@ -0,0 +1,46 @@
+import {
+  Card,
+  CardContent,
+  CardFooter,
+  CardHeader,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function Loading() {
+  return (
+    <div className="h-full p-4">
+      <Card className="h-[calc(100vh-(32px+56px))]">
+        <CardHeader className="space-y-3">
+          <Skeleton className="h-10 w-3/4" />
+          <div className="flex gap-2">
+            <Skeleton className="h-5 w-16" />
+            <Skeleton className="h-5 w-16" />
+          </div>
+          <div className="flex items-center gap-5">
+            <Skeleton className="size-10 rounded-full" />
+            <div className="space-y-1">
+              <Skeleton className="h-4 w-32" />
+              <Skeleton className="h-3 w-40" />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="h-72">
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-2 h-full">
+            <Skeleton className="w-full h-full" />
+            <div className="space-y-2 p-4">
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-5/6" />
+              <Skeleton className="h-4 w-2/3" />
+            </div>
+          </div>
+        </CardContent>
+        <CardFooter className="px-3.5 pt-2.5 flex justify-end gap-2">
+          <Skeleton className="h-8 w-24" />
+          <Skeleton className="h-8 w-24" />
+          <Skeleton className="h-8 w-20" />
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,10 @@
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+
 import { Post } from "@/app/posts/_components/single-post";
+import { LocalPost } from "@/app/posts/_components/local-post";
+import { getQueryClient } from "@/lib/query-client";
+import { getPostDetails } from "@/lib/queries/posts";
+import { isLocalPostId } from "@/lib/post-overlay";
 
 export default async function Page({
   params,
@@ -6,6 +12,19 @@ export default async function Page({
   params: Promise<{ id: string }>;
 }) {
   const { id } = await params;
+  if (isLocalPostId(id)) return <LocalPost postId={id} />;
+
+  const queryClient = getQueryClient();
+  const [postQueryOptions, commentsQueryOptions] = getPostDetails(id);
+
+  // The post is awaited so it is part of the first paint; the first page of
+  // comments is streamed in once it resolves
+  void queryClient.prefetchInfiniteQuery(commentsQueryOptions);
+  await queryClient.prefetchQuery(postQueryOptions);
 
-  return <Post postId={id} />;
+  return (
+    <HydrationBoundary state={dehydrate(queryClient)}>
+      <Post postId={id} />
+    </HydrationBoundary>
+  );
 }
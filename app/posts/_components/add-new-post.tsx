@@ -4,37 +4,108 @@ import {
     Dialog,
     DialogContent,
     DialogDescription,
+    DialogFooter,
     DialogHeader,
     DialogTitle,
     DialogTrigger,
 } from "@/components/ui/dialog";
 
-import { PostForm } from "./post-form";
+import { PostForm } from "@/components/posts/post-form";
 import { useState } from "react";
+import { useQueryState } from "nuqs";
+import { useLocalStore } from "@/hooks/use-local-store";
+import {
+    createDraftId,
+    getDraftName,
+    PostDraft,
+    postDraftStore,
+} from "@/lib/post-drafts";
 
 export const AddNewPost = () => {
-    const [isDialogOpen, setDialogOpen] = useState(false);
+    // Set while the form is open; the sidebar opens a draft by linking here
+    const [draftId, setDraftId] = useQueryState("draft");
+    // The latest draft, offered before starting a new post
+    const [draftToRestore, setDraftToRestore] = useState<PostDraft | null>(
+        null
+    );
+    const drafts = useLocalStore(postDraftStore);
+
+    const openDialog = () => {
+        if (drafts.length > 0) {
+            setDraftToRestore(drafts[0]);
+        } else {
+            setDraftId(createDraftId());
+        }
+    };
 
     const closeDialog = () => {
-        setDialogOpen(false);
+        setDraftToRestore(null);
+        setDraftId(null);
     };
+
+    const chooseDraft = (id: string) => {
+        setDraftToRestore(null);
+        setDraftId(id);
+    };
+
     return (
-        <Dialog open={isDialogOpen} onOpenChange={setDialogOpen}>
+        <Dialog
+            open={Boolean(draftId || draftToRestore)}
+            onOpenChange={(open) => (open ? openDialog() : closeDialog())}
+        >
             <DialogTrigger asChild>
                 <Button className="w-fit">
                     Add New Post <PlusCircleIcon className="ml-2" />
                 </Button>
             </DialogTrigger>
             <DialogContent className="sm:max-w-[425px]">
-                <DialogHeader>
-                    <DialogTitle>Add Your New Post</DialogTitle>
-                    <DialogDescription>
-                        Make sure click save button when you &lsquo; re done.
-                    </DialogDescription>
-                </DialogHeader>
-                <div className=" py-4">
-                    <PostForm closeDialog={closeDialog} />
-                </div>
+                {draftToRestore ? (
+                    <>
+                        <DialogHeader>
+                            <DialogTitle>Restore draft?</DialogTitle>
+                            <DialogDescription>
+                                You have an unsent post, &ldquo;
+                                {getDraftName(draftToRestore)}&rdquo;, last
+                                edited{" "}
+                                {new Date(
+                                    draftToRestore.updatedAt
+                                ).toLocaleString()}
+                                .
+                            </DialogDescription>
+                        </DialogHeader>
+                        <DialogFooter>
+                            <Button
+                                variant="outline"
+                                onClick={() => chooseDraft(createDraftId())}
+                            >
+                                Start fresh
+                            </Button>
+                            <Button
+                                onClick={() => chooseDraft(draftToRestore.id)}
+                            >
+                                Restore
+                            </Button>
+                        </DialogFooter>
+                    </>
+                ) : (
+                    <>
+                        <DialogHeader>
+                            <DialogTitle>Add Your New Post</DialogTitle>
+                            <DialogDescription>
+                                Make sure click save button when you &lsquo; re
+                                done.
+                            </DialogDescription>
+                        </DialogHeader>
+                        <div className=" py-4">
+                            {/* Remounts so switching drafts resets the form */}
+                            <PostForm
+                                key={draftId}
+                                draftId={draftId ?? undefined}
+                                closeDialog={closeDialog}
+                            />
+                        </div>
+                    </>
+                )}
             </DialogContent>
         </Dialog>
     );
@@ -0,0 +1,11 @@
+"use client";
+
+import dynamic from "next/dynamic";
+import Loading from "@/app/posts/[id]/loading";
+
+// Posts created in this browser only exist in its localStorage, so the server
+// can't render (or prefetch) them and would answer with a 404
+export const LocalPost = dynamic(
+  () => import("./single-post").then(({ Post }) => Post),
+  { ssr: false, loading: () => <Loading /> }
+);
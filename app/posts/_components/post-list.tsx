@@ -0,0 +1,127 @@
+"use client";
+
+import { RefreshCcw, X } from "lucide-react";
+import { useQueryStates } from "nuqs";
+import { cn } from "@/lib/utils";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PostCard } from "@/components/post-card";
+import { usePosts } from "@/hooks/custom/use-posts";
+import { useLocalStore } from "@/hooks/use-local-store";
+import {
+    getLocalPosts,
+    isPendingPost,
+    postOverlayStore,
+} from "@/lib/post-overlay";
+import { postsSearchParams } from "@/lib/search-params";
+import { PaginationBar } from "@/components/pagination-bar";
+import { AddNewPost } from "./add-new-post";
+
+export const PostList = () => {
+    const {
+        data: postQueryData,
+        dataUpdatedAt,
+        isFetching,
+        isStale,
+        refetch,
+    } = usePosts();
+    const overlay = useLocalStore(postOverlayStore);
+    const [{ tag, page }, setSearchParams] =
+        useQueryStates(postsSearchParams);
+    // Listed once, above the first page, instead of being mixed into pages
+    // that are sorted and paginated by the server
+    const localPosts = page === "1" ? getLocalPosts(overlay, tag) : [];
+
+    return (
+        <>
+            <div className="p-4 space-y-2 flex flex-1  flex-col">
+                <div className="flex gap-3  flex-col md:justify-between ">
+                    <AddNewPost />
+                    <div className="flex items-center space-x-2 bg-white  self-end   rounded-md px-3">
+                        {/* Rendered on the server too, whose clock and locale
+                        differ from the browser's */}
+                        <p
+                            className="text-xs  lg:text-sm "
+                            suppressHydrationWarning
+                        >
+                            Last updated •{" "}
+                            {new Date(dataUpdatedAt).toLocaleString()}
+                        </p>
+                        <Button
+                            variant={"ghost"}
+                            onClick={() => refetch()}
+                            className="flex items-center bg-transparent hover:bg-transparent"
+                        >
+                            Refresh{" "}
+                            <RefreshCcw
+                                className={cn(
+                                    "ml-1",
+                                    isFetching && "animate-spin"
+                                )}
+                            />
+                        </Button>
+                    </div>
+                </div>
+
+                {tag && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        Filtered by
+                        <Badge variant="secondary" className="gap-1">
+                            #{tag}
+                            <button
+                                type="button"
+                                aria-label={`Remove tag filter ${tag}`}
+                                onClick={() =>
+                                    setSearchParams({ tag: null, page: null })
+                                }
+                                className="rounded-sm opacity-70 hover:opacity-100"
+                            >
+                                <X className="size-3" />
+                            </button>
+                        </Badge>
+                        <span className="text-xs">
+                            {postQueryData.total}{" "}
+                            {postQueryData.total === 1 ? "post" : "posts"}
+                        </span>
+                    </div>
+                )}
+
+                {localPosts.length > 0 && (
+                    <section className="space-y-2">
+                        <h2 className="text-sm font-medium text-muted-foreground">
+                            Your posts
+                        </h2>
+                        <div className="grid auto-rows-min gap-4 md:grid-cols-2 lg:grid-cols-3 content-center">
+                            {localPosts.map((post) => (
+                                <PostCard
+                                    key={post.id}
+                                    post={post}
+                                    isPending={isPendingPost(overlay, post.id)}
+                                />
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                <div
+                    className={cn(
+                        "grid auto-rows-min gap-4 md:grid-cols-2 lg:grid-cols-3 content-center",
+                        isFetching ? "opacity-50" : "opacity-100"
+                    )}
+                >
+                    {postQueryData.posts.map((post) => (
+                        <PostCard key={post.id} post={post} />
+                    ))}
+                </div>
+            </div>
+            <footer className="h-16 px-4 w-full bg-white flex-grow-0 flex items-center justify-center">
+                <PaginationBar
+                    isChangingPage={isStale}
+                    limit={postQueryData.limit}
+                    totalPages={Math.ceil(Number(postQueryData.total) / 9)}
+                />
+            </footer>
+        </>
+    );
+};
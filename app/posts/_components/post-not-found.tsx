@@ -0,0 +1,34 @@
+import Link from "next/link";
+import { FileQuestion } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export const PostNotFound = ({ postId }: { postId: string }) => {
+  return (
+    <div className="flex items-center w-full h-full justify-center p-4">
+      <Card className="max-w-[580px] w-full">
+        <CardHeader>
+          <div className="flex items-center gap-5">
+            <FileQuestion className="size-10" />
+            <CardTitle className="text-4xl">Post not found</CardTitle>
+          </div>
+          <CardDescription>
+            There is no post with id #{postId}. It may have been removed, or
+            the link is wrong.
+          </CardDescription>
+        </CardHeader>
+        <CardFooter className="flex justify-end mt-4">
+          <Button asChild>
+            <Link href="/posts">Back to posts</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 "use client";
 
-import { Bookmark, MessageCircle } from "lucide-react";
+import { Loader, MessageCircle } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,17 +11,29 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Badge } from "@/components/ui/badge";
+import { Markdown } from "@/components/markdown";
+import { TagBadge } from "@/components/tag-badge";
 import {
-  Popover,
-  PopoverContent,
-  PopoverTrigger,
-} from "@/components/ui/popover";
-import { Comments } from "@/components/comments";
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Comments, isCommentHash } from "@/components/comments";
 import { CopyToClipboardBtn } from "@/components/copy-to-clipboard-btn";
+import { BookmarkButton } from "@/components/bookmark-button";
+import { PostReactions, PostViews } from "@/components/post-reactions";
 import { usePostDetails } from "../_hooks/use-post-details";
+import { EditPost } from "@/components/posts/edit-post";
+import { DeletePost } from "@/components/posts/delete-post";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
 import { useUser } from "@/hooks/custom/use-user";
-import { Spinner } from "@/components/loader";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useEffect, useState } from "react";
 
 export const Post = ({ postId }: { postId: string }) => {
   const {
@@ -29,28 +41,55 @@ export const Post = ({ postId }: { postId: string }) => {
     comments,
     isCommentsError,
     isCommentsPending,
-    isPostPending,
-    postStatus,
+    isCommentsFetching,
+    commentsError,
+    refetchComments,
+    fetchMoreComments,
+    hasMoreComments,
+    isFetchingMoreComments,
+    isFetchMoreCommentsError,
+    isPostFetching,
   } = usePostDetails({ postId });
+  const router = useRouter();
+  const isMobile = useIsMobile();
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
 
-  //prefetching
-  //const { data: post, isPlaceholderData, isError } = usePost({ postId });
+  // On small screens a link to a comment has to open the panel first
+  useEffect(() => {
+    if (!isMobile) return;
+    const onHashChange = () => {
+      if (isCommentHash(window.location.hash)) setIsCommentsOpen(true);
+    };
+    onHashChange();
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, [isMobile]);
 
   const {
     data: user,
     isLoading: isUserLoading,
     status,
   } = useUser({
-    id: post?.id,
+    id: post.userId,
   });
 
-  if (postStatus === "error") return "Error";
-
-  if (postStatus === "pending" || isPostPending) return <Spinner />;
-
-  if (!post) return;
-
   const fullName = user ? `${user.firstName} ${user.lastName}` : "Anonymous";
+  const commentsPanel = (
+    <Comments
+      postId={post.id}
+      commentsResponse={comments}
+      isCommentsError={isCommentsError}
+      isCommentsPending={isCommentsPending}
+      commentsError={commentsError}
+      onRetry={() => refetchComments()}
+      isRetrying={isCommentsFetching}
+      hasMoreComments={hasMoreComments}
+      isFetchingMoreComments={isFetchingMoreComments}
+      isFetchMoreError={isFetchMoreCommentsError}
+      onFetchMore={() => fetchMoreComments()}
+      className="flex-1"
+    />
+  );
   return (
     <div className="h-full p-4">
       <Card className="h-[calc(100vh-(32px+56px))]">
@@ -58,21 +97,25 @@ export const Post = ({ postId }: { postId: string }) => {
           <CardTitle className="text-4xl line-clamp-2 hover:line-clamp-none cursor-pointer">
             {post.title}
           </CardTitle>
+          {isPostFetching && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Loader className="size-3 animate-spin" />
+              refreshing
+            </p>
+          )}
           <div className="flex gap-2">
             {post.tags.map((tag) => (
-              <Badge
+              <TagBadge
                 key={tag}
-                variant="outline"
+                tag={tag}
                 className="text-sm font-normal leading-snug tracking-wider rounded-lg  px-1.5 py-0"
-              >
-                #{tag}
-              </Badge>
+              />
             ))}
           </div>
           <div className="flex items-center gap-5">
             <div>
               {!(status === "success") ? (
-                "fetching..."
+                <Skeleton className="size-10 rounded-full" />
               ) : (
                 <>
                   <Avatar className="size-10">
@@ -89,68 +132,93 @@ export const Post = ({ postId }: { postId: string }) => {
               <p className="font-semibold text-sm capitalize text-muted-foreground">
                 {fullName}
               </p>
-              <p className="text-xs text-muted-foreground/70">
-                {isUserLoading ? "loading" : user?.email}
-              </p>
+              {isUserLoading ? (
+                <Skeleton className="mt-1 h-3 w-32" />
+              ) : (
+                <p className="text-xs text-muted-foreground/70">
+                  {user?.email}
+                </p>
+              )}
             </div>
           </div>
         </CardHeader>
         <CardContent className="h-72">
           <div className="grid grid-cols-1 gap-4 lg:grid-cols-2 h-full">
-            <Avatar className="w-full h-full rounded-md">
-              <AvatarImage
-                className="w-full h-full rounded-md"
-                src={post.imageUrl}
-                alt={post.title}
-              />
-              <AvatarFallback className="w-full h-full rounded-md text-8xl">
-                {post.title.charAt(0).toUpperCase()}
-              </AvatarFallback>
-            </Avatar>
+            {post.imageUrl ? (
+              <div className="relative w-full h-full">
+                <Image
+                  src={post.imageUrl}
+                  alt={post.title}
+                  fill
+                  sizes="(min-width: 1024px) 50vw, 100vw"
+                  className="rounded-md object-cover"
+                />
+              </div>
+            ) : (
+              <Avatar className="w-full h-full rounded-md">
+                <AvatarFallback className="w-full h-full rounded-md text-8xl">
+                  {post.title.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+            )}
 
             <div className="">
               <ScrollArea className="h-72 p-4">
-                {/* {isPlaceholderData ? (
-                  <Loader className="animate-spin" />
-                ) : (
-                  <p className="">{post?.body}</p>
-                )} */}
-                <p className="">{post?.body}</p>
+                <Markdown
+                  className={cn(
+                    "transition-opacity",
+                    isPostFetching && "opacity-70"
+                  )}
+                >
+                  {post.body}
+                </Markdown>
               </ScrollArea>
             </div>
           </div>
         </CardContent>
         <CardFooter className="px-3.5 pt-2.5  flex justify-end ">
-          <div className="flex">
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button variant={"ghost"} size={"sm"}>
-                  <MessageCircle className="size-4" />
-                  comments
-                </Button>
-              </PopoverTrigger>
-              {!comments ? (
-                <PopoverContent align="center" className="w-96">
-                  <p className="text-sm font-medium text-muted-foreground">
-                    No Comments
-                  </p>
-                </PopoverContent>
-              ) : (
-                <Comments
-                  commentsResponse={comments}
-                  isCommentsError={isCommentsError}
-                  isCommentsPending={isCommentsPending}
-                />
-              )}
-            </Popover>
-            <Button variant={"ghost"} className="">
-              <Bookmark className="size-4" />
-              bookmark
+          <div className="flex flex-wrap items-center justify-end">
+            <PostReactions post={post} />
+            <PostViews views={post.views} />
+            <Button
+              variant={"ghost"}
+              size={"sm"}
+              onClick={() =>
+                isMobile
+                  ? setIsCommentsOpen(true)
+                  : document
+                      .getElementById("comments")
+                      ?.scrollIntoView({ behavior: "smooth" })
+              }
+            >
+              <MessageCircle className="size-4" />
+              comments
+              {comments && ` (${comments.total})`}
             </Button>
+            <BookmarkButton postId={post.id} />
+            <EditPost post={post} />
+            <DeletePost post={post} onDeleted={() => router.push("/posts")} />
             <CopyToClipboardBtn postId={post?.id} />
           </div>
         </CardFooter>
       </Card>
+      {isMobile ? (
+        <Sheet open={isCommentsOpen} onOpenChange={setIsCommentsOpen}>
+          <SheetContent side="bottom" className="flex h-[85vh] flex-col">
+            <SheetHeader>
+              <SheetTitle>Comments</SheetTitle>
+              <SheetDescription className="line-clamp-1">
+                {post.title}
+              </SheetDescription>
+            </SheetHeader>
+            {commentsPanel}
+          </SheetContent>
+        </Sheet>
+      ) : (
+        <section id="comments" className="mt-4">
+          <Card className="p-4">{commentsPanel}</Card>
+        </section>
+      )}
     </div>
   );
 };
@@ -1,48 +1,41 @@
-import { getComments } from "@/hooks/custom/use-comments";
-import { getPost } from "@/hooks/custom/use-post";
-import { ICommentResponse } from "@/types/comment";
-import { IPost } from "@/types/post";
-import { useQueries } from "@tanstack/react-query";
-
-export const getPostDetails = (postId: string) => [
-  { ...getPost(postId) },
-  { ...getComments(postId) },
-];
+import { useComments } from "@/hooks/custom/use-comments";
+import { getCachedPostData, useSelectPost } from "@/hooks/custom/use-post";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { isDeletedPost, postOverlayStore } from "@/lib/post-overlay";
+import { getPostDetails, postNotFoundError } from "@/lib/queries/posts";
+import { useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
 
+// The post suspends (and throws to the route error boundary), while comments
+// load on their own so a slow or failing comments request never blocks it
 export const usePostDetails = ({ postId }: { postId: string }) => {
-  return useQueries({
-    queries: [...getPostDetails(postId)],
-
-    combine: (queries) => {
-      const isPending = queries.some((query) => query.status === "pending");
-      const isError = queries.some((query) => query.status === "error");
-      const [postQuery, commentsQuery] = queries;
-
-      const isPostPending = postQuery.isPending;
-      const isPostError = postQuery.isError;
-      const isCommentsPending = commentsQuery.isPending;
-      const isCommentsError = commentsQuery.isError;
+  const queryClient = useQueryClient();
+  const [postQueryOptions] = getPostDetails(postId);
 
-      const post: IPost = postQuery.data as IPost;
-      const isPostPlaceHolder = postQuery.isPlaceholderData;
-      const comments: ICommentResponse = commentsQuery.data as ICommentResponse;
+  const postQuery = useSuspenseQuery({
+    ...postQueryOptions,
+    ...getCachedPostData(queryClient, postId),
+    select: useSelectPost(),
+  });
+  const commentsQuery = useComments({ postId });
 
-      const postStatus = postQuery.status;
-      const commentsStatus = commentsQuery.status;
+  // dummyjson still serves deleted posts, e.g. on going back after a delete
+  // or when the post's URL is opened directly
+  const postOverlay = useLocalStore(postOverlayStore);
+  if (isDeletedPost(postOverlay, postId)) throw postNotFoundError(postId);
 
-      return {
-        post,
-        comments,
-        postStatus,
-        isPostPending,
-        commentsStatus,
-        isPostError,
-        isCommentsPending,
-        isCommentsError,
-        isPending,
-        isError,
-        isPostPlaceHolder,
-      };
-    },
-  });
+  return {
+    post: postQuery.data,
+    isPostFetching: postQuery.isFetching,
+    comments: commentsQuery.data,
+    commentsStatus: commentsQuery.status,
+    isCommentsPending: commentsQuery.isPending,
+    isCommentsError: commentsQuery.isError,
+    isCommentsFetching: commentsQuery.isFetching,
+    commentsError: commentsQuery.error,
+    refetchComments: commentsQuery.refetch,
+    fetchMoreComments: commentsQuery.fetchNextPage,
+    hasMoreComments: commentsQuery.hasNextPage,
+    isFetchingMoreComments: commentsQuery.isFetchingNextPage,
+    isFetchMoreCommentsError: commentsQuery.isFetchNextPageError,
+  };
 };
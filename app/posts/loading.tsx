@@ -0,0 +1,24 @@
+import { PostCardSkeleton } from "@/components/post-card-skeleton";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MAX_POST_PER_PAGE } from "@/lib/queries/posts";
+
+export default function Loading() {
+  return (
+    <>
+      <div className="p-4 space-y-2 flex flex-1 flex-col">
+        <div className="flex gap-3 flex-col md:justify-between">
+          <Skeleton className="h-9 w-40" />
+          <Skeleton className="h-9 w-72 self-end" />
+        </div>
+        <div className="grid auto-rows-min gap-4 md:grid-cols-2 lg:grid-cols-3 content-center">
+          {Array.from({ length: MAX_POST_PER_PAGE }, (_, index) => (
+            <PostCardSkeleton key={index} />
+          ))}
+        </div>
+      </div>
+      <footer className="h-16 px-4 w-full bg-white flex-grow-0 flex items-center justify-center">
+        <Skeleton className="h-9 w-96" />
+      </footer>
+    </>
+  );
+}
@@ -1,93 +1,28 @@
-"use client";
-
-import { useEffect, useState } from "react";
-import { RefreshCcw } from "lucide-react";
-import { cn } from "@/lib/utils";
-
-import { Button } from "@/components/ui/button";
-import { PostCard } from "@/components/post-card";
-import { Spinner } from "@/components/loader";
-import { Error } from "@/components/error";
-import { usePosts } from "@/hooks/custom/use-posts";
-import { PaginationBar } from "@/components/pagination-bar";
-import { AddNewPost } from "./_components/add-new-post";
-
-export default function Page() {
-    const {
-        data: postQueryData,
-        status,
-        isFetching,
-        refetch,
-        isPlaceholderData,
-    } = usePosts();
-    const [lastFetched, setLastFetched] = useState(new Date());
-
-    useEffect(() => {
-        if (status === "success" && !isFetching && !isPlaceholderData) {
-            setLastFetched(new Date());
-        }
-    }, [status, isFetching, isPlaceholderData]);
-
-    if (status === "pending") {
-        return <Spinner />;
-    }
-
-    if (status === "error") {
-        return (
-            <div className="flex items-center w-full h-full justify-center">
-                <Error message="Something went while fetching posts." />
-            </div>
-        );
-    }
-
-    const handleRefetch = () => {
-        refetch();
-        setLastFetched(new Date());
-    };
-
-    return (
-        <>
-            <div className="p-4 space-y-2 flex flex-1  flex-col">
-                <div className="flex gap-3  flex-col md:justify-between ">
-                    <AddNewPost />
-                    <div className="flex items-center space-x-2 bg-white  self-end   rounded-md px-3">
-                        <p className="text-xs  lg:text-sm ">
-                            Last updated • {lastFetched.toLocaleString()}
-                        </p>
-                        <Button
-                            variant={"ghost"}
-                            onClick={handleRefetch}
-                            className="flex items-center bg-transparent hover:bg-transparent"
-                        >
-                            Refresh{" "}
-                            <RefreshCcw
-                                className={cn(
-                                    "ml-1",
-                                    isFetching && "animate-spin"
-                                )}
-                            />
-                        </Button>
-                    </div>
-                </div>
-
-                <div
-                    className={cn(
-                        "grid auto-rows-min gap-4 md:grid-cols-2 lg:grid-cols-3 content-center",
-                        isPlaceholderData ? "opacity-50" : "opacity-100"
-                    )}
-                >
-                    {postQueryData.posts.map((post) => (
-                        <PostCard key={post.id} post={post} />
-                    ))}
-                </div>
-            </div>
-            <footer className="h-16 px-4 w-full bg-white flex-grow-0 flex items-center justify-center">
-                <PaginationBar
-                    isPlaceholderData={isPlaceholderData}
-                    limit={postQueryData.limit}
-                    totalPages={Math.ceil(Number(postQueryData.total) / 9)}
-                />
-            </footer>
-        </>
-    );
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query";
+import type { SearchParams } from "nuqs/server";
+
+import { getQueryClient } from "@/lib/query-client";
+import { getPostsQueryOptions } from "@/lib/queries/posts";
+import { postsSearchParamsCache } from "@/lib/search-params";
+import { PostList } from "./_components/post-list";
+
+export default async function Page({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const { sortBy, order, page, tag } = await postsSearchParamsCache.parse(
+    searchParams
+  );
+  const queryClient = getQueryClient();
+
+  await queryClient.prefetchQuery(
+    getPostsQueryOptions(sortBy, order, page, tag)
+  );
+
+  return (
+    <HydrationBoundary state={dehydrate(queryClient)}>
+      <PostList />
+    </HydrationBoundary>
+  );
 }
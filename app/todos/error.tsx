@@ -0,0 +1,12 @@
+"use client";
+
+import { RouteError, RouteErrorProps } from "@/components/route-error";
+
+export default function Error(props: RouteErrorProps) {
+  return (
+    <RouteError
+      {...props}
+      message="Something went wrong while fetching todos."
+    />
+  );
+}
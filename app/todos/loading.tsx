@@ -0,0 +1,16 @@
+import { Skeleton } from "@/components/ui/skeleton";
+import { MAX_TODO_PER_PAGE } from "@/hooks/custom/use-todos";
+
+export default function Loading() {
+  return (
+    <div className="p-4 space-y-6">
+      {Array.from({ length: MAX_TODO_PER_PAGE }, (_, index) => (
+        <div key={index} className="flex items-center space-x-4">
+          <Skeleton className="size-4" />
+          <Skeleton className="h-7 w-12" />
+          <Skeleton className="h-4 w-2/3" />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -11,7 +11,6 @@ export default function Page() {
         data,
         fetchNextPage,
         fetchPreviousPage,
-        status,
         hasNextPage,
         hasPreviousPage,
         isFetchingNextPage,
@@ -40,9 +39,6 @@ export default function Page() {
         }
     }, [topInView, hasPreviousPage, isFetchingPreviousPage, fetchPreviousPage]);
 
-    if (status === "pending") return <p>Loading...</p>;
-    if (status === "error") return <p>Error fetching todos</p>;
-
     // Flatten and combine all pages of todos
     const todos = data.pages.flatMap((page) => page.todos);
 
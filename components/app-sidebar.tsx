@@ -4,6 +4,9 @@ import * as React from "react";
 import { Command } from "lucide-react";
 
 import { NavMain } from "@/components/sidebar/nav-main";
+import { DraftsNav } from "@/components/sidebar/drafts-nav";
+import { BookmarksNav } from "@/components/sidebar/bookmarks-nav";
+import { TagsNav } from "@/components/sidebar/tags-nav";
 import {
   Sidebar,
   SidebarContent,
@@ -38,6 +41,9 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
       <SidebarContent>
         <NavMain />
         <SortNav />
+        <BookmarksNav />
+        <DraftsNav />
+        <TagsNav />
       </SidebarContent>
       <SidebarFooter>{/*  */}</SidebarFooter>
     </Sidebar>
@@ -0,0 +1,46 @@
+"use client";
+
+import { Bookmark, BookmarkCheck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { bookmarkStore } from "@/lib/bookmarks";
+
+export const BookmarkButton = ({ postId }: { postId: string }) => {
+  const isBookmarked = useLocalStore(bookmarkStore).includes(postId);
+
+  const toggleBookmark = () => {
+    if (isBookmarked) {
+      bookmarkStore.remove(postId);
+      toast("Bookmark removed", {
+        action: { label: "Undo", onClick: () => bookmarkStore.add(postId) },
+      });
+    } else {
+      bookmarkStore.add(postId);
+      toast("Post bookmarked", {
+        description: "Find it again under Bookmarks.",
+      });
+    }
+  };
+
+  return (
+    <Button
+      variant={"ghost"}
+      size={"sm"}
+      onClick={toggleBookmark}
+      aria-pressed={isBookmarked}
+    >
+      {isBookmarked ? (
+        <>
+          <BookmarkCheck className="size-4 text-emerald-500" />
+          <span className="text-emerald-500">saved</span>
+        </>
+      ) : (
+        <>
+          <Bookmark className="size-4" />
+          bookmark
+        </>
+      )}
+    </Button>
+  );
+};
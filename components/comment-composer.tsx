@@ -0,0 +1,134 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader, SendHorizontal } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import { useAddComment } from "@/hooks/custom/use-add-comment";
+import { cn } from "@/lib/utils";
+
+// Shared with CommentEditForm
+export const commentSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, { message: "The comment can not be empty." })
+    .max(500, { message: "The comment is too long." }),
+});
+
+export type CommentValues = z.infer<typeof commentSchema>;
+
+interface CommentComposerProps {
+  postId: string;
+  // Writes a reply to this comment instead of a top-level comment
+  parentId?: string;
+  onSent?: () => void;
+  onCancel?: () => void;
+}
+
+export const CommentComposer = ({
+  postId,
+  parentId,
+  onSent,
+  onCancel,
+}: CommentComposerProps) => {
+  const form = useForm<CommentValues>({
+    resolver: zodResolver(commentSchema),
+    defaultValues: { body: "" },
+  });
+  const { mutate, isPending, isError, error, reset } = useAddComment();
+
+  const onSubmit = ({ body }: CommentValues) => {
+    reset();
+    // The comment is already in the list, so the field is cleared right away
+    // and only refilled if it couldn't be saved
+    form.reset();
+    mutate(
+      { postId, body, parentId },
+      {
+        onError: () => {
+          if (!form.getValues("body")) form.setValue("body", body);
+        },
+        // A reply box stays open until the reply is saved, so a failure can
+        // still be retried from it
+        onSuccess: () => onSent?.(),
+      }
+    );
+  };
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className={cn("space-y-1", !parentId && "border-t pt-3")}
+      >
+        <FormField
+          control={form.control}
+          name="body"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex items-end gap-2">
+                <FormControl>
+                  <Textarea
+                    placeholder={
+                      parentId ? "Write a reply..." : "Write a comment..."
+                    }
+                    className="min-h-9 resize-none text-xs"
+                    rows={2}
+                    autoFocus={Boolean(parentId)}
+                    {...field}
+                    onKeyDown={(event) => {
+                      // Enter sends, Shift+Enter adds a new line
+                      if (event.key === "Enter" && !event.shiftKey) {
+                        event.preventDefault();
+                        form.handleSubmit(onSubmit)();
+                      }
+                      if (event.key === "Escape" && onCancel) {
+                        onCancel();
+                      }
+                    }}
+                  />
+                </FormControl>
+                <Button
+                  type="submit"
+                  size="icon"
+                  aria-label="Send comment"
+                  disabled={isPending}
+                >
+                  {isPending ? (
+                    <Loader className="size-4 animate-spin" />
+                  ) : (
+                    <SendHorizontal className="size-4" />
+                  )}
+                </Button>
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {isError && (
+          <p className="flex items-center gap-2 text-xs text-destructive">
+            Your comment wasn&apos;t posted: {error.message}
+            <Button
+              type="submit"
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+            >
+              Retry
+            </Button>
+          </p>
+        )}
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,79 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import { useUpdateComment } from "@/hooks/custom/use-update-comment";
+import { IComment } from "@/types/comment";
+import { commentSchema, CommentValues } from "./comment-composer";
+
+interface CommentEditFormProps {
+  comment: IComment;
+  onDone: () => void;
+}
+
+export const CommentEditForm = ({ comment, onDone }: CommentEditFormProps) => {
+  const form = useForm<CommentValues>({
+    resolver: zodResolver(commentSchema),
+    defaultValues: { body: comment.body },
+  });
+  const { mutate: updateComment } = useUpdateComment();
+
+  // The overlay is updated optimistically and rolled back on failure, so
+  // there is nothing to wait for
+  const onSubmit = ({ body }: CommentValues) => {
+    if (body !== comment.body) updateComment({ comment, body });
+    onDone();
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-1">
+        <FormField
+          control={form.control}
+          name="body"
+          render={({ field }) => (
+            <FormItem>
+              <FormControl>
+                <Textarea
+                  className="min-h-9 resize-none text-xs"
+                  rows={2}
+                  autoFocus
+                  {...field}
+                  onKeyDown={(event) => {
+                    if (event.key === "Escape") {
+                      onDone();
+                    }
+                  }}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="flex justify-end gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={onDone}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" className="h-6 px-2 text-xs">
+            Save
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
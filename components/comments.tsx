@@ -1,65 +1,427 @@
-import { PopoverContent } from "@/components/ui/popover";
+"use client";
+
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useUser } from "@/hooks/custom/use-user";
 import { IComment, ICommentResponse } from "@/types/comment";
-import { Loader } from "lucide-react";
+import { ChevronDown, CornerUpLeft, Link, Loader } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Button } from "@/components/ui/button";
+import { useDeleteComment } from "@/hooks/custom/use-delete-comment";
+import { CURRENT_USER_ID } from "@/lib/current-user";
+import { cn } from "@/lib/utils";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { useIntersectionObserver } from "@/hooks/use-intersectionObserver";
+import {
+  CommentOverlay,
+  commentOverlayStore,
+  isPendingComment,
+} from "@/lib/comment-overlay";
+import {
+  buildCommentThreads,
+  CommentThread,
+  countReplies,
+} from "@/lib/comment-threads";
 import { Error } from "./error";
+import { CommentComposer } from "./comment-composer";
+import { CommentEditForm } from "./comment-edit-form";
+
+type CommentOrder = "oldest" | "newest";
+
+const COMMENT_HASH_PREFIX = "#comment-";
+
+const getCommentAnchor = (commentId: string) =>
+  `${COMMENT_HASH_PREFIX}${commentId}`;
+
+export const isCommentHash = (hash: string) =>
+  hash.startsWith(COMMENT_HASH_PREFIX);
+
+const getLinkedCommentId = () =>
+  isCommentHash(window.location.hash)
+    ? decodeURIComponent(window.location.hash.slice(COMMENT_HASH_PREFIX.length))
+    : null;
+
+const scrollToComment = (commentId: string) =>
+  document
+    .getElementById(`comment-${commentId}`)
+    ?.scrollIntoView({ behavior: "smooth", block: "center" });
 
 interface CommentProps {
-  commentsResponse: ICommentResponse;
+  postId: string;
+  commentsResponse: ICommentResponse | undefined;
   isCommentsError: boolean;
   isCommentsPending: boolean;
+  commentsError?: unknown;
+  onRetry: () => void;
+  isRetrying: boolean;
+  hasMoreComments: boolean;
+  isFetchingMoreComments: boolean;
+  // Only the next page failed; the loaded comments stay on screen
+  isFetchMoreError: boolean;
+  onFetchMore: () => void;
+  className?: string;
 }
 
 export const Comments = ({
+  postId,
   commentsResponse,
   isCommentsError,
   isCommentsPending,
+  commentsError,
+  onRetry,
+  isRetrying,
+  hasMoreComments,
+  isFetchingMoreComments,
+  isFetchMoreError,
+  onFetchMore,
+  className,
 }: CommentProps) => {
-  if (isCommentsError) {
+  const overlay = useLocalStore(commentOverlayStore);
+  const [order, setOrder] = useState<CommentOrder>("oldest");
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [linkedId, setLinkedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  // Goes through the same lookup as a link to the comment, so a comment on a
+  // page that isn't loaded yet is still found
+  const jumpToComment = (commentId: string) => setLinkedId(commentId);
+
+  useEffect(() => {
+    const onHashChange = () => setLinkedId(getLinkedCommentId());
+    onHashChange();
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  // A linked comment may sit on a page that isn't loaded yet, so pages are
+  // fetched until it shows up or there are none left (e.g. it was deleted)
+  const comments = commentsResponse?.comments;
+  useEffect(() => {
+    if (!linkedId || !comments) return;
+
+    if (comments.some(({ id }) => id === linkedId)) {
+      scrollToComment(linkedId);
+      setHighlightedId(linkedId);
+      setLinkedId(null);
+    } else if (!hasMoreComments) {
+      setLinkedId(null);
+      toast("That comment is no longer available");
+    } else if (!isFetchingMoreComments && !isFetchMoreError) {
+      onFetchMore();
+    }
+  }, [
+    linkedId,
+    comments,
+    hasMoreComments,
+    isFetchingMoreComments,
+    isFetchMoreError,
+    onFetchMore,
+  ]);
+
+  // Pages come oldest first, so the newest comments are only known once
+  // every page is in; until then the list would show the newest of the
+  // oldest and later pages would land above the reader
+  const isLoadingNewest = order === "newest" && hasMoreComments;
+  useEffect(() => {
+    if (isLoadingNewest && !isFetchingMoreComments && !isFetchMoreError) {
+      onFetchMore();
+    }
+  }, [isLoadingNewest, isFetchingMoreComments, isFetchMoreError, onFetchMore]);
+
+  if (isCommentsError && !isFetchMoreError) {
     return (
-      <PopoverContent align="center" className="w-96">
-        <p className="text-sm font-medium text-muted-foreground">
-          Error while comment loading
-        </p>
-      </PopoverContent>
+      <div className={className}>
+        <Error
+          message="Error while comment loading"
+          error={commentsError}
+          onRetry={onRetry}
+          isRetrying={isRetrying}
+        />
+      </div>
     );
   }
 
+  const threads = buildCommentThreads(comments ?? []);
+  // Only top-level comments are reordered; replies always read in order
+  if (order === "newest") threads.reverse();
+
   return (
-    <PopoverContent align="center" className="w-96">
-      <p className="text-sm font-medium text-muted-foreground">
-        Comments (
-        {isCommentsPending ? (
-          <Loader className="animate-spin size-7" />
-        ) : (
-          commentsResponse.total
-        )}
-        )
-      </p>
-      <ScrollArea className="h-[200px] p-4">
-        {isCommentsPending ? (
-          "loding"
+    <div className={cn("flex min-h-0 flex-col gap-3", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-muted-foreground">
+          Comments (
+          {isCommentsPending ? (
+            <Loader className="inline size-4 animate-spin" />
+          ) : (
+            `showing ${comments?.length} of ${commentsResponse?.total}`
+          )}
+          )
+        </p>
+        <Select
+          value={order}
+          onValueChange={(value) => setOrder(value as CommentOrder)}
+        >
+          <SelectTrigger className="h-8 w-32 text-xs" aria-label="Sort">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="oldest">Oldest first</SelectItem>
+            <SelectItem value="newest">Newest first</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <CommentComposer postId={postId} />
+      <ScrollArea className="min-h-0 flex-1 pr-3">
+        {isCommentsPending || (isLoadingNewest && !isFetchMoreError) ? (
+          <CommentsSkeleton />
+        ) : !comments?.length ? (
+          <p className="text-sm text-muted-foreground">
+            No comments yet. Start the conversation.
+          </p>
         ) : (
-          <div className="space-y-3">
-            {commentsResponse.comments.map((comment) => (
-              <CommentCard key={comment.id} comment={comment} />
+          <div className="space-y-3 pb-2">
+            {threads.map((thread) => (
+              <CommentThreadItem
+                key={thread.comment.id}
+                thread={thread}
+                postId={postId}
+                overlay={overlay}
+                highlightedId={highlightedId}
+                onJumpToComment={jumpToComment}
+              />
             ))}
+            {hasMoreComments && (
+              <LoadMoreComments
+                isFetching={isFetchingMoreComments}
+                isError={isFetchMoreError}
+                onFetchMore={onFetchMore}
+              />
+            )}
           </div>
         )}
       </ScrollArea>
-    </PopoverContent>
+    </div>
+  );
+};
+
+// Deeper replies stop indenting so narrow panels stay readable
+const MAX_INDENT_DEPTH = 3;
+
+interface CommentThreadItemProps {
+  thread: CommentThread;
+  postId: string;
+  overlay: CommentOverlay;
+  highlightedId: string | null;
+  onJumpToComment: (commentId: string) => void;
+  depth?: number;
+}
+
+const CommentThreadItem = ({
+  thread,
+  postId,
+  overlay,
+  highlightedId,
+  onJumpToComment,
+  depth = 0,
+}: CommentThreadItemProps) => {
+  const [isReplying, setIsReplying] = useState(false);
+  const [isOpen, setIsOpen] = useState(true);
+  const { comment, replies } = thread;
+  const { parentId } = comment;
+  const replyCount = countReplies(thread);
+
+  return (
+    <div className="space-y-2">
+      <CommentCard
+        comment={comment}
+        isPending={isPendingComment(overlay, comment.id)}
+        isHighlighted={highlightedId === comment.id}
+        // Also offered for replies whose parent isn't loaded yet, which are
+        // listed at the top level until it is
+        onJumpToParent={
+          parentId ? () => onJumpToComment(parentId) : undefined
+        }
+        onReply={() => setIsReplying(true)}
+      />
+      {isReplying && (
+        <div className="border-l pl-3">
+          <CommentComposer
+            postId={postId}
+            parentId={comment.id}
+            onSent={() => {
+              setIsReplying(false);
+              setIsOpen(true);
+            }}
+            onCancel={() => setIsReplying(false)}
+          />
+        </div>
+      )}
+      {replyCount > 0 && (
+        <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+          <CollapsibleTrigger className="group flex items-center gap-1 text-[10px] text-muted-foreground hover:underline">
+            <ChevronDown className="size-3 transition-transform group-data-[state=closed]:-rotate-90" />
+            {replyCount} {replyCount === 1 ? "reply" : "replies"}
+          </CollapsibleTrigger>
+          <CollapsibleContent
+            className={cn(
+              "mt-2 space-y-3",
+              depth < MAX_INDENT_DEPTH && "border-l pl-3"
+            )}
+          >
+            {replies.map((reply) => (
+              <CommentThreadItem
+                key={reply.comment.id}
+                thread={reply}
+                postId={postId}
+                overlay={overlay}
+                highlightedId={highlightedId}
+                onJumpToComment={onJumpToComment}
+                depth={depth + 1}
+              />
+            ))}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+};
+
+// Loads the next page as soon as the end of the list scrolls into view
+const LoadMoreComments = ({
+  isFetching,
+  isError,
+  onFetchMore,
+}: {
+  isFetching: boolean;
+  isError: boolean;
+  onFetchMore: () => void;
+}) => {
+  const { ref, isIntersecting } = useIntersectionObserver({ threshold: 0 });
+
+  useEffect(() => {
+    // A failed page is only retried on request, not on every scroll
+    if (isIntersecting && !isFetching && !isError) onFetchMore();
+  }, [isIntersecting, isFetching, isError, onFetchMore]);
+
+  return (
+    <div ref={ref} className="flex justify-center py-1">
+      {isError ? (
+        <p className="flex items-center gap-2 text-xs text-destructive">
+          Could not load more comments.
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={onFetchMore}
+          >
+            Retry
+          </Button>
+        </p>
+      ) : (
+        <Loader
+          className={cn("size-4 animate-spin", !isFetching && "invisible")}
+        />
+      )}
+    </div>
   );
 };
 
-export const CommentCard = ({ comment }: { comment: IComment }) => {
-  const { data: user, isLoading, status } = useUser({ id: comment.user.id });
+const CommentsSkeleton = () => (
+  <div className="space-y-3">
+    {Array.from({ length: 3 }, (_, index) => (
+      <div key={index} className="space-y-2">
+        <div className="flex gap-3 items-center">
+          <Skeleton className="size-10 rounded-full" />
+          <div className="space-y-1">
+            <Skeleton className="h-3 w-24" />
+            <Skeleton className="h-3 w-32" />
+          </div>
+        </div>
+        <Skeleton className="h-3 w-full" />
+      </div>
+    ))}
+  </div>
+);
+
+interface CommentCardProps {
+  comment: IComment;
+  // Added optimistically and not saved yet
+  isPending?: boolean;
+  isHighlighted?: boolean;
+  onReply?: () => void;
+  onJumpToParent?: () => void;
+}
+
+export const CommentCard = ({
+  comment,
+  isPending = false,
+  isHighlighted = false,
+  onReply,
+  onJumpToParent,
+}: CommentCardProps) => {
+  const {
+    data: user,
+    isLoading,
+    status,
+    error,
+    refetch,
+    isFetching,
+  } = useUser({ id: comment.user.id });
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const { mutate: deleteComment } = useDeleteComment();
+  const isOwn = comment.user.id === CURRENT_USER_ID;
+
+  const copyLink = () => {
+    const anchor = getCommentAnchor(comment.id);
+    const url = `${window.location.origin}/posts/${comment.postId}${anchor}`;
+    // replaceState doesn't fire hashchange, so the list doesn't jump around
+    window.history.replaceState(null, "", anchor);
+    navigator.clipboard
+      .writeText(url)
+      .then(() => toast("Link to comment copied"))
+      .catch(() => toast("Could not copy the link to this comment"));
+  };
+
   if (status === "error") {
-    return <Error />;
+    return (
+      <Error
+        message="Something went wrong while fetching the comment author."
+        error={error}
+        onRetry={() => refetch()}
+        isRetrying={isFetching}
+      />
+    );
   }
   return (
-    <div className="space-y-2">
+    <div
+      id={`comment-${comment.id}`}
+      className={cn(
+        "space-y-2 rounded-md transition-colors",
+        isPending && "opacity-60",
+        isHighlighted && "bg-accent"
+      )}
+      aria-busy={isPending}
+    >
       {isLoading || status === "pending" ? (
         <Loader className="animate-spin size-7" />
       ) : (
@@ -81,7 +443,92 @@ export const CommentCard = ({ comment }: { comment: IComment }) => {
           </div>
         </div>
       )}
-      <p className="text-xs text-primary/80">{comment.body}</p>
+      {isEditing ? (
+        <CommentEditForm comment={comment} onDone={() => setIsEditing(false)} />
+      ) : (
+        <p className="text-xs text-primary/80">{comment.body}</p>
+      )}
+      {isPending && (
+        <p className="text-[10px] text-muted-foreground">Posting...</p>
+      )}
+      {!isPending && !isEditing && (
+        <div className="flex items-center gap-1 text-[10px]">
+          {isConfirmingDelete ? (
+            <>
+              <span className="text-muted-foreground">Delete comment?</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 px-1.5 text-[10px] text-destructive"
+                onClick={() => deleteComment(comment)}
+              >
+                delete
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 px-1.5 text-[10px]"
+                onClick={() => setIsConfirmingDelete(false)}
+              >
+                cancel
+              </Button>
+            </>
+          ) : (
+            <>
+              {onReply && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 px-1.5 text-[10px]"
+                  onClick={onReply}
+                >
+                  reply
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 px-1.5 text-[10px]"
+                onClick={copyLink}
+              >
+                <Link className="size-3" />
+                link
+              </Button>
+              {onJumpToParent && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-5 px-1.5 text-[10px]"
+                  onClick={onJumpToParent}
+                >
+                  <CornerUpLeft className="size-3" />
+                  parent
+                </Button>
+              )}
+              {isOwn && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-5 px-1.5 text-[10px]"
+                    onClick={() => setIsEditing(true)}
+                  >
+                    edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-5 px-1.5 text-[10px]"
+                    onClick={() => setIsConfirmingDelete(true)}
+                  >
+                    delete
+                  </Button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -6,13 +6,60 @@ import {
   CardFooter,
   CardDescription,
 } from "@/components/ui/card";
-import { AlertTriangle } from "lucide-react";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { AlertTriangle, ChevronDown, Loader } from "lucide-react";
+import { isApiError } from "@/lib/api-error";
 
 interface ErrorProps {
   message?: string;
+  // The failed request's error, listed in the collapsible details
+  error?: unknown;
+  // Should refetch only what failed; the Retry button is hidden without it
+  onRetry?: () => void;
+  isRetrying?: boolean;
+}
+
+interface ErrorDetail {
+  // Messages and paths can repeat across issues, so they can't be the key
+  key: string;
+  text: string;
 }
 
-export const Error = ({ message = "Something went wrong!" }: ErrorProps) => {
+const getErrorDetails = (error: unknown): ErrorDetail[] => {
+  if (isApiError(error)) {
+    return [
+      {
+        key: "status",
+        text: error.status
+          ? `Status: ${error.status}`
+          : `Type: ${error.kind} error`,
+      },
+      { key: "url", text: `URL: ${error.url}` },
+      { key: "message", text: error.message },
+      ...error.issues.map((issue, index) => {
+        const path = issue.path.join(".") || "(root)";
+        return { key: `${index}-${path}`, text: `${path}: ${issue.message}` };
+      }),
+    ];
+  }
+  if (error instanceof globalThis.Error) {
+    return [{ key: "message", text: error.message }];
+  }
+  return [];
+};
+
+export const Error = ({
+  message = "Something went wrong!",
+  error,
+  onRetry,
+  isRetrying = false,
+}: ErrorProps) => {
+  const details = getErrorDetails(error);
+
   return (
     <Card className="max-w-[580px] w-full">
       <CardHeader>
@@ -28,16 +75,33 @@ export const Error = ({ message = "Something went wrong!" }: ErrorProps) => {
 
       <CardContent className="mt-2">
         <p className="text-lg">{message}</p>
+        {details.length > 0 && (
+          <Collapsible className="mt-2">
+            <CollapsibleTrigger className="group flex items-center gap-1 text-xs text-muted-foreground hover:underline">
+              Error details
+              <ChevronDown className="size-3 transition-transform group-data-[state=open]:rotate-180" />
+            </CollapsibleTrigger>
+            <CollapsibleContent className="mt-2 space-y-1 rounded bg-muted p-2 text-xs font-mono text-muted-foreground break-words">
+              {details.map(({ key, text }) => (
+                <p key={key}>{text}</p>
+              ))}
+            </CollapsibleContent>
+          </Collapsible>
+        )}
       </CardContent>
 
-      <CardFooter className="flex justify-end mt-4">
-        <button
-          className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600 transition"
-          onClick={() => window.location.reload()}
-        >
-          Retry
-        </button>
-      </CardFooter>
+      {onRetry && (
+        <CardFooter className="flex justify-end mt-4">
+          <button
+            className="flex items-center gap-2 bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600 transition disabled:opacity-70 disabled:cursor-not-allowed"
+            onClick={onRetry}
+            disabled={isRetrying}
+          >
+            {isRetrying && <Loader className="size-4 animate-spin" />}
+            {isRetrying ? "Retrying..." : "Retry"}
+          </button>
+        </CardFooter>
+      )}
     </Card>
   );
 };
@@ -0,0 +1,34 @@
+import ReactMarkdown from "react-markdown";
+import rehypeSanitize from "rehype-sanitize";
+import { cn } from "@/lib/utils";
+
+// There is no typography plugin, so the rendered elements are styled from
+// the wrapper
+const markdownStyles = [
+  "[&_h1]:mt-4 [&_h1]:mb-2 [&_h1]:text-2xl [&_h1]:font-bold",
+  "[&_h2]:mt-4 [&_h2]:mb-2 [&_h2]:text-xl [&_h2]:font-semibold",
+  "[&_h3]:mt-3 [&_h3]:mb-1 [&_h3]:text-lg [&_h3]:font-semibold",
+  "[&_p]:my-2",
+  "[&_ul]:my-2 [&_ul]:ml-6 [&_ul]:list-disc",
+  "[&_ol]:my-2 [&_ol]:ml-6 [&_ol]:list-decimal",
+  "[&_blockquote]:my-2 [&_blockquote]:border-l-2 [&_blockquote]:pl-4 [&_blockquote]:italic",
+  "[&_a]:font-medium [&_a]:underline [&_a]:underline-offset-2",
+  "[&_code]:rounded [&_code]:bg-muted [&_code]:px-1 [&_code]:font-mono [&_code]:text-sm",
+  "[&_pre]:my-2 [&_pre]:overflow-x-auto [&_pre]:rounded-md [&_pre]:bg-muted [&_pre]:p-3",
+  "[&_pre_code]:p-0",
+];
+
+// Raw HTML in the source is dropped and whatever Markdown produces goes
+// through rehype-sanitize's GitHub-style allowlist, so a post can't inject
+// scripts, event handlers or javascript: links
+export const Markdown = ({
+  children,
+  className,
+}: {
+  children: string;
+  className?: string;
+}) => (
+  <div className={cn("break-words", markdownStyles, className)}>
+    <ReactMarkdown rehypePlugins={[rehypeSanitize]}>{children}</ReactMarkdown>
+  </div>
+);
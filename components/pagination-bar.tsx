@@ -9,26 +9,35 @@ import { Button } from "./ui/button";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { cn } from "@/lib/utils";
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
 import { ChevronLeft, ChevronRight } from "lucide-react";
 
 interface PaginationBarProps {
   limit: number;
   totalPages: number;
-  isPlaceholderData: boolean;
+  // While the next page is loading, so it can't be skipped past
+  isChangingPage: boolean;
 }
 
 export const PaginationBar = ({
   limit,
   totalPages,
-  isPlaceholderData,
+  isChangingPage,
 }: PaginationBarProps) => {
   const [page] = useQueryState("page", { defaultValue: "1" });
+  const searchParams = useSearchParams();
   const isMobile = useIsMobile();
 
   const currentPage = parseInt(page);
   const nextPage = currentPage < totalPages ? currentPage + 1 : totalPages;
   const prevPage = currentPage > 1 ? currentPage - 1 : 1;
-  const pageHref = (pageNum: number) => `/posts?page=${pageNum}&limit=${limit}`;
+  // Keeps the rest of the URL state (e.g. the sort) when changing pages
+  const pageHref = (pageNum: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("page", String(pageNum));
+    params.set("limit", String(limit));
+    return `/posts?${params}`;
+  };
   const renderPageLink = (pageNum: number) => (
     <PaginationItem key={pageNum}>
       <Button
@@ -64,10 +73,10 @@ export const PaginationBar = ({
           >
             <Link
               href={pageHref(prevPage)}
-              aria-disabled={currentPage <= 1 || isPlaceholderData}
+              aria-disabled={currentPage <= 1 || isChangingPage}
               tabIndex={currentPage <= 1 ? -1 : undefined}
               className={
-                currentPage <= 1 || isPlaceholderData
+                currentPage <= 1 || isChangingPage
                   ? " opacity-50 cursor-not-allowed"
                   : undefined
               }
@@ -127,10 +136,10 @@ export const PaginationBar = ({
           >
             <Link
               href={pageHref(nextPage)}
-              aria-disabled={currentPage >= totalPages || isPlaceholderData}
+              aria-disabled={currentPage >= totalPages || isChangingPage}
               tabIndex={currentPage >= totalPages ? -1 : undefined}
               className={
-                currentPage >= totalPages || isPlaceholderData
+                currentPage >= totalPages || isChangingPage
                   ? " opacity-50 cursor-not-allowed"
                   : undefined
               }
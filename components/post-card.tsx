@@ -1,5 +1,6 @@
 import { cn } from "@/lib/utils";
 import Link from "next/link";
+import Image from "next/image";
 import { Loader } from "lucide-react";
 import { useQueryClient } from "@tanstack/react-query";
 
@@ -11,49 +12,89 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { IPost } from "@/types/post";
 import { useUser } from "@/hooks/custom/use-user";
-import { Badge } from "@/components/ui/badge";
+import { TagBadge } from "@/components/tag-badge";
 import { CopyToClipboardBtn } from "@/components/copy-to-clipboard-btn";
+import { BookmarkButton } from "@/components/bookmark-button";
+import { PostReactions, PostViews } from "@/components/post-reactions";
 import { Error } from "@/components/error";
-import { getPost } from "@/hooks/custom/use-post";
+import { getPost } from "@/lib/queries/posts";
+import { getExcerpt } from "@/lib/markdown";
+import { EditPost } from "@/components/posts/edit-post";
+import { DeletePost } from "@/components/posts/delete-post";
 
-export const PostCard = ({ post }: { post: IPost }) => {
-  const { data: user, status, isLoading } = useUser({ id: post.userId });
+export const PostCard = ({
+  post,
+  isPending = false,
+}: {
+  post: IPost;
+  // Added optimistically and not saved yet, so there is nothing to open or edit
+  isPending?: boolean;
+}) => {
+  const {
+    data: user,
+    status,
+    isLoading,
+    error,
+    refetch,
+    isFetching,
+  } = useUser({ id: post.userId });
 
   const queryClient = useQueryClient();
 
   if (status === "error") {
     return (
       <div className="flex items-center w-full h-full justify-center">
-        <Error message="Something went while fetching user." />
+        <Error
+          message="Something went wrong while fetching user."
+          error={error}
+          onRetry={() => refetch()}
+          isRetrying={isFetching}
+        />
       </div>
     );
   }
 
   return (
-    <Card className={cn("min-w-[320px] py-2")}>
+    <Card
+      className={cn("min-w-[320px] py-2", isPending && "opacity-60")}
+      aria-busy={isPending}
+    >
       <CardHeader className="px-3.5 py-1">
         <div className="flex items-center gap-4">
           <div>
-            <Avatar className="size-16">
-              <AvatarImage src={post.imageUrl} alt={post.title} />
-              <AvatarFallback>
-                {post.title.charAt(0).toUpperCase()}
-              </AvatarFallback>
-            </Avatar>
+            {post.imageUrl ? (
+              <Image
+                src={post.imageUrl}
+                alt={post.title}
+                width={64}
+                height={64}
+                className="size-16 rounded-full object-cover"
+              />
+            ) : (
+              <Avatar className="size-16">
+                <AvatarFallback>
+                  {post.title.charAt(0).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+            )}
           </div>
           <div className="space-y-1">
-            <Link
-              href={`http://localhost:3000/posts/${post.id}`}
-              className="hover:underline underline-offset-2 transition"
-              onMouseEnter={() => {
-                queryClient.prefetchQuery(getPost(post.id.toString()));
-              }}
-            >
+            {isPending ? (
               <CardTitle className="line-clamp-2">{post.title}</CardTitle>
-            </Link>
+            ) : (
+              <Link
+                href={`http://localhost:3000/posts/${post.id}`}
+                className="hover:underline underline-offset-2 transition"
+                onMouseEnter={() => {
+                  queryClient.prefetchQuery(getPost(post.id.toString()));
+                }}
+              >
+                <CardTitle className="line-clamp-2">{post.title}</CardTitle>
+              </Link>
+            )}
             <CardDescription className="line-clamp-1 text-xs">
               {status === "pending" || isLoading ? (
                 <Loader className="size-2" />
@@ -63,25 +104,35 @@ export const PostCard = ({ post }: { post: IPost }) => {
             </CardDescription>
             <div className="flex gap-2">
               {post.tags.map((tag) => (
-                <Badge
+                <TagBadge
                   key={tag}
-                  variant="outline"
+                  tag={tag}
                   className="text-[9px] font-normal leading-snug tracking-wider rounded-lg  px-1.5 py-0"
-                >
-                  #{tag}
-                </Badge>
+                />
               ))}
             </div>
           </div>
         </div>
       </CardHeader>
       <CardContent className="grid gap-4   px-3.5 py-1">
-        <p className="text-sm line-clamp-3">{post.body}</p>
+        <p className="text-sm line-clamp-3">{getExcerpt(post.body)}</p>
       </CardContent>
       <CardFooter className="px-3.5 py-1  flex justify-end">
-        <div className="flex">
-          <CopyToClipboardBtn postId={post.id} />
-        </div>
+        {isPending ? (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Loader className="size-3 animate-spin" />
+            Saving...
+          </p>
+        ) : (
+          <div className="flex flex-wrap justify-end">
+            <PostReactions post={post} />
+            <PostViews views={post.views} />
+            <EditPost post={post} />
+            <DeletePost post={post} />
+            <BookmarkButton postId={post.id} />
+            <CopyToClipboardBtn postId={post.id} />
+          </div>
+        )}
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,69 @@
+"use client";
+
+import { Eye, ThumbsDown, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { useReactToPost } from "@/hooks/custom/use-react-to-post";
+import {
+  getReactionCounts,
+  PostReaction,
+  postReactionStore,
+} from "@/lib/post-reactions";
+import { cn } from "@/lib/utils";
+import { IPost } from "@/types/post";
+
+const countFormat = new Intl.NumberFormat("en", { notation: "compact" });
+
+const formatCount = (count: number) => countFormat.format(count);
+
+export const PostReactions = ({ post }: { post: IPost }) => {
+  const reaction = useLocalStore(postReactionStore)[post.id];
+  // One change at a time, so a rollback never undoes a newer reaction
+  const { mutate: react, isPending } = useReactToPost();
+  const { likes, dislikes } = getReactionCounts(post.reactions, reaction);
+
+  // Picking the current reaction again takes it back
+  const toggle = (next: PostReaction) =>
+    react({ post, reaction: reaction === next ? null : next });
+
+  return (
+    <div className="flex">
+      <Button
+        variant={"ghost"}
+        size={"sm"}
+        onClick={() => toggle("like")}
+        disabled={isPending}
+        aria-pressed={reaction === "like"}
+        aria-label={`Like, ${likes} likes`}
+      >
+        <ThumbsUp
+          className={cn("size-4", reaction === "like" && "fill-current")}
+        />
+        {formatCount(likes)}
+      </Button>
+      <Button
+        variant={"ghost"}
+        size={"sm"}
+        onClick={() => toggle("dislike")}
+        disabled={isPending}
+        aria-pressed={reaction === "dislike"}
+        aria-label={`Dislike, ${dislikes} dislikes`}
+      >
+        <ThumbsDown
+          className={cn("size-4", reaction === "dislike" && "fill-current")}
+        />
+        {formatCount(dislikes)}
+      </Button>
+    </div>
+  );
+};
+
+export const PostViews = ({ views }: { views: number }) => (
+  <span
+    className="flex items-center gap-1 px-3 text-xs text-muted-foreground"
+    aria-label={`${views} views`}
+  >
+    <Eye className="size-4" />
+    {formatCount(views)}
+  </span>
+);
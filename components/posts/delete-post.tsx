@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useDeletePost } from "@/hooks/custom/use-delete-post";
+import { IPost } from "@/types/post";
+
+interface DeletePostProps {
+  post: IPost;
+  // Called right after confirming, e.g. to leave the deleted post's page
+  onDeleted?: () => void;
+}
+
+export const DeletePost = ({ post, onDeleted }: DeletePostProps) => {
+  const [isDialogOpen, setDialogOpen] = useState(false);
+  const { mutate: deletePost } = useDeletePost();
+
+  const handleConfirm = () => {
+    deletePost(post);
+    setDialogOpen(false);
+    onDeleted?.();
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={setDialogOpen}>
+      <DialogTrigger asChild>
+        <Button variant={"ghost"} size={"sm"}>
+          <Trash2 className="size-4" />
+          delete
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Delete this post?</DialogTitle>
+          <DialogDescription>
+            &ldquo;{post.title}&rdquo; will be removed. You can undo this for a
+            few seconds afterwards.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant={"outline"}>Cancel</Button>
+          </DialogClose>
+          <Button variant={"destructive"} onClick={handleConfirm}>
+            Delete
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
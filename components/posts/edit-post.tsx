@@ -0,0 +1,41 @@
+"use client";
+
+import { useState } from "react";
+import { Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { IPost } from "@/types/post";
+import { PostForm } from "./post-form";
+
+export const EditPost = ({ post }: { post: IPost }) => {
+  const [isDialogOpen, setDialogOpen] = useState(false);
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={setDialogOpen}>
+      <DialogTrigger asChild>
+        <Button variant={"ghost"} size={"sm"}>
+          <Pencil className="size-4" />
+          edit
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Edit Post</DialogTitle>
+          <DialogDescription>
+            Changes show up right away and are reverted if saving fails.
+          </DialogDescription>
+        </DialogHeader>
+        <div className=" py-4">
+          <PostForm post={post} closeDialog={() => setDialogOpen(false)} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,171 @@
+"use client";
+
+import { ChangeEvent, DragEvent, useEffect, useRef, useState } from "react";
+import Image from "next/image";
+import { ImagePlus, Loader, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { useUploadImage } from "@/hooks/custom/use-upload-image";
+import { ACCEPTED_IMAGE_TYPES, isImageFile } from "@/lib/image";
+
+interface ImageInputProps {
+  // URL of the uploaded image
+  value?: string;
+  onChange: (url: string | undefined) => void;
+}
+
+// Takes an image from the file picker, a drop or the clipboard and uploads
+// it right away, so saving the post only has to send the URL
+export const ImageInput = ({ value, onChange }: ImageInputProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [localPreview, setLocalPreview] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [rejectedMessage, setRejectedMessage] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { mutate: upload, isPending, isError, error, reset } = useUploadImage();
+
+  const uploadFile = (nextFile: File) => {
+    upload(nextFile, { onSuccess: ({ url }) => onChange(url) });
+  };
+
+  const selectFile = (nextFile: File | undefined) => {
+    if (!nextFile) return;
+    if (!isImageFile(nextFile)) {
+      setRejectedMessage(
+        "Only JPEG, PNG, WebP and GIF images can be attached."
+      );
+      return;
+    }
+
+    setRejectedMessage(null);
+    setFile(nextFile);
+    uploadFile(nextFile);
+  };
+
+  const removeImage = () => {
+    reset();
+    setFile(null);
+    onChange(undefined);
+  };
+
+  // Shows the picked image while it is being processed and uploaded
+  useEffect(() => {
+    if (!file) {
+      setLocalPreview(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(file);
+    setLocalPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Pasting only counts when the clipboard holds an image, so pasting text
+  // into the other fields is unaffected
+  useEffect(() => {
+    const onPaste = (event: ClipboardEvent) => {
+      const pasted = Array.from(event.clipboardData?.files ?? []).find(
+        isImageFile
+      );
+      if (!pasted) return;
+
+      event.preventDefault();
+      selectFile(pasted);
+    };
+
+    window.addEventListener("paste", onPaste);
+    return () => window.removeEventListener("paste", onPaste);
+  });
+
+  const onDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    selectFile(event.dataTransfer.files[0]);
+  };
+
+  const onFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    selectFile(event.target.files?.[0]);
+    // Picking the same file again should still fire a change
+    event.target.value = "";
+  };
+
+  const previewSrc = isPending || isError ? localPreview : value;
+
+  return (
+    <div className="space-y-1">
+      <div
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={onDrop}
+        className={cn(
+          "relative flex h-32 items-center justify-center overflow-hidden rounded-md border border-dashed text-sm text-muted-foreground",
+          isDragging && "border-primary bg-muted"
+        )}
+      >
+        {previewSrc ? (
+          <>
+            {/* Blob URLs and fresh uploads don't go through the optimizer */}
+            <Image
+              src={previewSrc}
+              alt="Attached image"
+              fill
+              unoptimized
+              className={cn("object-cover", isPending && "opacity-50")}
+            />
+            {isPending && (
+              <Loader className="relative size-5 animate-spin text-foreground" />
+            )}
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon"
+              aria-label="Remove image"
+              onClick={removeImage}
+              className="absolute right-1 top-1 size-6"
+            >
+              <X className="size-3" />
+            </Button>
+          </>
+        ) : (
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className="flex flex-col items-center gap-1 p-4"
+          >
+            <ImagePlus className="size-5" />
+            Drop, paste or browse for an image
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES}
+          onChange={onFileChange}
+          className="hidden"
+        />
+      </div>
+      {rejectedMessage && (
+        <p className="text-xs text-destructive">{rejectedMessage}</p>
+      )}
+      {isError && (
+        <p className="flex items-center gap-2 text-xs text-destructive">
+          Upload failed: {error.message}
+          {file && (
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              onClick={() => uploadFile(file)}
+              className="h-auto p-0 text-xs"
+            >
+              Retry
+            </Button>
+          )}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormLabel,
+    FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Markdown } from "@/components/markdown";
+import { Textarea } from "@/components/ui/textarea";
+import { useAddPost } from "@/hooks/custom/use-add-post";
+import { useUpdatePost } from "@/hooks/custom/use-update-post";
+import { isEmptyDraft, postDraftStore } from "@/lib/post-drafts";
+import { IPost } from "@/types/post";
+import { TagsInput } from "./tags-input";
+import { ImageInput } from "./image-input";
+import { UPLOAD_IMAGE_MUTATION_KEY } from "@/hooks/custom/use-upload-image";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useIsMutating } from "@tanstack/react-query";
+import { useEffect, useRef } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+const MAX_TAGS = 3;
+const DRAFT_SAVE_DELAY = 500;
+
+const postSchema = z.object({
+    title: z
+        .string()
+        .min(1, { message: "The title can not be empty." })
+        .max(64, { message: "The title is too long." }),
+    body: z.string().min(1, { message: "The description can not be empty." }),
+    tags: z
+        .array(z.string())
+        .max(MAX_TAGS, {
+            message: `A post can have at most ${MAX_TAGS} tags.`,
+        })
+        .optional(),
+    imageUrl: z.string().optional(),
+});
+
+interface PostFormProps {
+    closeDialog: () => void;
+    // Edits this post instead of adding a new one
+    post?: IPost;
+    // New posts are saved to (and restored from) this draft as the user types
+    draftId?: string;
+}
+
+export const PostForm = ({ closeDialog, post, draftId }: PostFormProps) => {
+    const draft = draftId ? postDraftStore.getDraft(draftId) : undefined;
+    const form = useForm<z.infer<typeof postSchema>>({
+        resolver: zodResolver(postSchema),
+        defaultValues: {
+            title: post?.title ?? draft?.title ?? "",
+            body: post?.body ?? draft?.body ?? "",
+            tags: post?.tags ?? draft?.tags ?? [],
+            imageUrl: post?.imageUrl ?? draft?.imageUrl,
+        },
+    });
+
+    // Once the post is sent its draft belongs to useAddPost, so the form
+    // must not save it again while unmounting
+    const isSubmittedRef = useRef(false);
+
+    useEffect(() => {
+        if (!draftId) return;
+
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const saveDraft = () => {
+            clearTimeout(timer);
+            timer = undefined;
+            if (isSubmittedRef.current) return;
+
+            const {
+                title = "",
+                body = "",
+                tags = [],
+                imageUrl,
+            } = form.getValues();
+            const values = { title, body, tags, imageUrl };
+            if (isEmptyDraft(values)) {
+                postDraftStore.removeDraft(draftId);
+            } else {
+                postDraftStore.saveDraft({ id: draftId, ...values });
+            }
+        };
+
+        const subscription = form.watch(() => {
+            clearTimeout(timer);
+            timer = setTimeout(saveDraft, DRAFT_SAVE_DELAY);
+        });
+
+        return () => {
+            subscription.unsubscribe();
+            // Closing the dialog mid-debounce still saves the last keystrokes
+            if (timer) saveDraft();
+        };
+    }, [draftId, form]);
+
+    const isUploading =
+        useIsMutating({ mutationKey: UPLOAD_IMAGE_MUTATION_KEY }) > 0;
+    const { mutate } = useAddPost();
+    const { mutate: updatePost } = useUpdatePost();
+    const onSubmit = (values: z.infer<typeof postSchema>) => {
+        if (post) {
+            // The edit is applied optimistically and useUpdatePost rolls it
+            // back on failure, so there is nothing to wait for
+            updatePost({ id: post.id, ...values });
+            closeDialog?.();
+            return;
+        }
+
+        // The post shows up in the list right away (see useAddPost), which
+        // also takes care of the draft
+        isSubmittedRef.current = true;
+        mutate({ ...values, draftId });
+        closeDialog?.();
+    };
+    return (
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                    control={form.control}
+                    name="title"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Post Title</FormLabel>
+                            <FormControl>
+                                <Input
+                                    placeholder="Tell us a little bit about yourself"
+                                    {...field}
+                                />
+                            </FormControl>
+
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="body"
+                    render={({ field }) => (
+                        <FormItem>
+                            <Tabs defaultValue="write">
+                                <div className="flex items-center justify-between">
+                                    <FormLabel>Post Description</FormLabel>
+                                    <TabsList className="h-8">
+                                        <TabsTrigger value="write">
+                                            Write
+                                        </TabsTrigger>
+                                        <TabsTrigger value="preview">
+                                            Preview
+                                        </TabsTrigger>
+                                    </TabsList>
+                                </div>
+                                <TabsContent value="write">
+                                    <FormControl>
+                                        <Textarea
+                                            placeholder="Tell us a little bit about yourself"
+                                            className="resize-none"
+                                            {...field}
+                                            rows={4}
+                                        />
+                                    </FormControl>
+                                    <p className="mt-1 text-xs text-muted-foreground">
+                                        Markdown is supported.
+                                    </p>
+                                </TabsContent>
+                                <TabsContent value="preview">
+                                    {field.value.trim() ? (
+                                        <Markdown className="max-h-60 min-h-24 overflow-y-auto rounded-md border px-3 py-1 text-sm">
+                                            {field.value}
+                                        </Markdown>
+                                    ) : (
+                                        <p className="min-h-24 rounded-md border px-3 py-2 text-sm text-muted-foreground">
+                                            Nothing to preview.
+                                        </p>
+                                    )}
+                                </TabsContent>
+                            </Tabs>
+
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="tags"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Tags</FormLabel>
+                            <FormControl>
+                                <TagsInput
+                                    name={field.name}
+                                    value={field.value ?? []}
+                                    onChange={field.onChange}
+                                    onBlur={field.onBlur}
+                                    maxTags={MAX_TAGS}
+                                />
+                            </FormControl>
+
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <FormField
+                    control={form.control}
+                    name="imageUrl"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormLabel>Image</FormLabel>
+                            <ImageInput
+                                value={field.value}
+                                onChange={field.onChange}
+                            />
+
+                            <FormMessage />
+                        </FormItem>
+                    )}
+                />
+                <DialogFooter>
+                    <Button type="submit" disabled={isUploading}>
+                        {isUploading ? "Uploading image..." : "Save"}
+                    </Button>
+                </DialogFooter>
+            </form>
+        </Form>
+    );
+};
@@ -0,0 +1,180 @@
+"use client";
+
+import { ComponentProps, KeyboardEvent, useId, useState } from "react";
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { usePostTags } from "@/hooks/custom/use-post-tags";
+
+const MAX_SUGGESTIONS = 6;
+
+// dummyjson tags are lowercase slugs, e.g. "french-cuisine"
+const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#/, "").toLowerCase().replace(/\s+/g, "-");
+
+interface TagsInputProps
+  extends Omit<ComponentProps<"input">, "value" | "onChange"> {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  maxTags: number;
+}
+
+export const TagsInput = ({
+  value,
+  onChange,
+  maxTags,
+  className,
+  onBlur,
+  ...props
+}: TagsInputProps) => {
+  const [draft, setDraft] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isOverLimit, setIsOverLimit] = useState(false);
+  const { data: allTags = [] } = usePostTags();
+  const listboxId = useId();
+
+  const query = normalizeTag(draft);
+  const suggestions = allTags
+    .filter(({ slug }) => !value.includes(slug) && slug.includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+  const isFull = value.length >= maxTags;
+  const showSuggestions = isOpen && !isFull && suggestions.length > 0;
+
+  const addTag = (rawTag: string) => {
+    const tag = normalizeTag(rawTag);
+    if (!tag) return;
+
+    if (isFull) {
+      setIsOverLimit(true);
+      return;
+    }
+
+    if (!value.includes(tag)) onChange([...value, tag]);
+    setDraft("");
+    setActiveIndex(0);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag));
+    setIsOverLimit(false);
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "Enter":
+      case ",":
+        // An empty Enter still submits the form
+        if (!draft && event.key === "Enter") return;
+        event.preventDefault();
+        addTag(
+          (showSuggestions && suggestions[activeIndex]?.slug) || draft
+        );
+        break;
+      case "Backspace":
+        if (!draft && value.length > 0) removeTag(value[value.length - 1]);
+        break;
+      case "ArrowDown":
+      case "ArrowUp": {
+        if (!showSuggestions) return;
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex(
+          (index) => (index + step + suggestions.length) % suggestions.length
+        );
+        break;
+      }
+      case "Escape":
+        if (!showSuggestions) return;
+        event.preventDefault();
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  return (
+    <div className="relative space-y-1">
+      <div
+        className={cn(
+          "flex min-h-9 w-full flex-wrap items-center gap-1 rounded-md border border-input bg-transparent px-2 py-1 shadow-sm focus-within:ring-1 focus-within:ring-ring",
+          className
+        )}
+      >
+        {value.map((tag) => (
+          <Badge key={tag} variant="secondary" className="gap-1 font-normal">
+            #{tag}
+            <button
+              type="button"
+              aria-label={`Remove tag ${tag}`}
+              onClick={() => removeTag(tag)}
+              className="rounded-sm opacity-70 hover:opacity-100"
+            >
+              <X className="size-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          {...props}
+          role="combobox"
+          aria-expanded={showSuggestions}
+          aria-controls={listboxId}
+          aria-activedescendant={
+            showSuggestions ? `${listboxId}-${activeIndex}` : undefined
+          }
+          aria-autocomplete="list"
+          value={draft}
+          placeholder={isFull ? "" : "Add a tag..."}
+          onChange={(event) => {
+            setDraft(event.target.value);
+            setIsOpen(true);
+            setActiveIndex(0);
+            setIsOverLimit(false);
+          }}
+          onKeyDown={onKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={(event) => {
+            setIsOpen(false);
+            onBlur?.(event);
+          }}
+          className="min-w-24 flex-1 bg-transparent py-0.5 text-sm outline-none placeholder:text-muted-foreground"
+        />
+      </div>
+      {showSuggestions && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-50 w-full rounded-md border bg-popover p-1 text-sm shadow-md"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.slug}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keeps the input focused so the list stays open
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => addTag(tag.slug)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "cursor-pointer rounded-sm px-2 py-1",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              {tag.name}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p
+        className={cn(
+          "text-xs",
+          isOverLimit ? "text-destructive" : "text-muted-foreground"
+        )}
+      >
+        {isOverLimit
+          ? `A post can have at most ${maxTags} tags. Remove one to add another.`
+          : `${value.length}/${maxTags} tags`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+"use client";
+
+import { useTransition } from "react";
+import { useQueryErrorResetBoundary } from "@tanstack/react-query";
+import { Error } from "@/components/error";
+
+export interface RouteErrorProps {
+  error: globalThis.Error & { digest?: string };
+  reset: () => void;
+}
+
+// Shared body of the route segment error.tsx files. Retrying resets the
+// query error boundary first, so only the queries that failed refetch when
+// the segment renders again.
+export const RouteError = ({
+  error,
+  reset,
+  message,
+}: RouteErrorProps & { message?: string }) => {
+  const { reset: resetQueries } = useQueryErrorResetBoundary();
+  const [isRetrying, startTransition] = useTransition();
+
+  return (
+    <div className="flex items-center w-full h-full justify-center p-4">
+      <Error
+        message={message}
+        error={error}
+        isRetrying={isRetrying}
+        onRetry={() =>
+          startTransition(() => {
+            resetQueries();
+            reset();
+          })
+        }
+      />
+    </div>
+  );
+};
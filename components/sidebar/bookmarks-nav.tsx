@@ -0,0 +1,39 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { Bookmark } from "lucide-react";
+import {
+  SidebarGroup,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { bookmarkStore } from "@/lib/bookmarks";
+
+export function BookmarksNav() {
+  const pathname = usePathname();
+  const bookmarkCount = useLocalStore(bookmarkStore).length;
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Library</SidebarGroupLabel>
+      <SidebarMenu>
+        <SidebarMenuItem>
+          <SidebarMenuButton asChild isActive={pathname === "/bookmarks"}>
+            <Link href="/bookmarks">
+              <Bookmark />
+              <span>Bookmarks</span>
+            </Link>
+          </SidebarMenuButton>
+          {bookmarkCount > 0 && (
+            <SidebarMenuBadge>{bookmarkCount}</SidebarMenuBadge>
+          )}
+        </SidebarMenuItem>
+      </SidebarMenu>
+    </SidebarGroup>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import Link from "next/link";
+import { FileText, Trash2 } from "lucide-react";
+import {
+  SidebarGroup,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { getDraftName, postDraftStore } from "@/lib/post-drafts";
+
+export function DraftsNav() {
+  const drafts = useLocalStore(postDraftStore);
+
+  if (drafts.length === 0) return null;
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Drafts</SidebarGroupLabel>
+      <SidebarMenu>
+        {drafts.map((draft) => (
+          <SidebarMenuItem key={draft.id}>
+            <SidebarMenuButton asChild>
+              {/* AddNewPost opens the draft from the ?draft param */}
+              <Link href={`/posts?draft=${draft.id}`}>
+                <FileText />
+                <span>{getDraftName(draft)}</span>
+              </Link>
+            </SidebarMenuButton>
+            <SidebarMenuAction
+              showOnHover
+              aria-label={`Delete draft ${getDraftName(draft)}`}
+              onClick={() => postDraftStore.removeDraft(draft.id)}
+            >
+              <Trash2 />
+            </SidebarMenuAction>
+          </SidebarMenuItem>
+        ))}
+      </SidebarMenu>
+    </SidebarGroup>
+  );
+}
@@ -13,41 +13,78 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { parseAsString, parseAsStringLiteral, useQueryState } from "nuqs";
+import { Button } from "@/components/ui/button";
+import { ArrowDownWideNarrow, ArrowUpNarrowWide } from "lucide-react";
+import { useQueryStates } from "nuqs";
 import { useCallback } from "react";
+import { orderValues, postsSearchParams } from "@/lib/search-params";
+import { LIKES_SORT } from "@/lib/queries/posts";
 
-export const orderValues = ["asc", "desc"] as const;
+type Order = (typeof orderValues)[number];
+
+// `defaultOrder` is what picking the field starts with, e.g. most liked first
+const sortOptions: { sortBy: string; label: string; defaultOrder: Order }[] = [
+  { sortBy: "title", label: "title", defaultOrder: "asc" },
+  { sortBy: "id", label: "newest", defaultOrder: "desc" },
+  { sortBy: LIKES_SORT, label: "likes", defaultOrder: "desc" },
+  { sortBy: "views", label: "views", defaultOrder: "desc" },
+  { sortBy: "userId", label: "author id", defaultOrder: "asc" },
+];
 
 export default function SortNav() {
-  const [, setOrder] = useQueryState(
-    "order",
-    parseAsStringLiteral(orderValues)
-  );
-  const [, setSortBy] = useQueryState("sortBy", parseAsString);
+  const [{ sortBy, order }, setSearchParams] =
+    useQueryStates(postsSearchParams);
 
+  // A new sort starts over from the first page
   const handleOnChangeEvent = useCallback(
     (value: string) => {
-      setSortBy("title");
-      setOrder(value as (typeof orderValues)[number]);
+      const option = sortOptions.find((option) => option.sortBy === value);
+      setSearchParams({
+        sortBy: value,
+        order: option?.defaultOrder ?? "asc",
+        page: null,
+      });
     },
-    [setOrder, setSortBy]
+    [setSearchParams]
   );
 
+  const toggleOrder = () =>
+    setSearchParams({
+      order: order === "desc" ? "asc" : "desc",
+      page: null,
+    });
+
   return (
     <SidebarGroup>
       <SidebarGroupLabel>Sort posts by</SidebarGroupLabel>
-      <SidebarMenu>
-        <Select onValueChange={handleOnChangeEvent}>
-          <SelectTrigger className="min-w-[180px]">
-            <SelectValue placeholder="Order post by title" />
+      <SidebarMenu className="flex-row gap-1">
+        <Select value={sortBy ?? ""} onValueChange={handleOnChangeEvent}>
+          <SelectTrigger className="min-w-[140px] flex-1">
+            <SelectValue placeholder="Order posts" />
           </SelectTrigger>
           <SelectContent>
             <SelectGroup>
-              <SelectItem value="asc">title (a-z)</SelectItem>
-              <SelectItem value="desc">title (z-a)</SelectItem>
+              {sortOptions.map(({ sortBy, label }) => (
+                <SelectItem key={sortBy} value={sortBy}>
+                  {label}
+                </SelectItem>
+              ))}
             </SelectGroup>
           </SelectContent>
         </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          className="shrink-0"
+          onClick={toggleOrder}
+          disabled={!sortBy}
+          aria-label={
+            order === "desc" ? "Sort ascending" : "Sort descending"
+          }
+          title={order === "desc" ? "Descending" : "Ascending"}
+        >
+          {order === "desc" ? <ArrowDownWideNarrow /> : <ArrowUpNarrowWide />}
+        </Button>
       </SidebarMenu>
     </SidebarGroup>
   );
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useQueryState } from "nuqs";
+import { Hash } from "lucide-react";
+import {
+  SidebarGroup,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { usePostTagCounts, usePostTags } from "@/hooks/custom/use-post-tags";
+
+// The rest stays behind "show all" so the list doesn't push the other groups
+// out of view
+const VISIBLE_TAGS = 8;
+
+export function TagsNav() {
+  const pathname = usePathname();
+  const [activeTag] = useQueryState("tag");
+  const [showAll, setShowAll] = useState(false);
+  const tagsQuery = usePostTags();
+  const countsQuery = usePostTagCounts();
+
+  const counts = countsQuery.data ?? {};
+  // Most used first; counts fill in once they arrive
+  const tags = [...(tagsQuery.data ?? [])].sort(
+    (a, b) => (counts[b.slug] ?? 0) - (counts[a.slug] ?? 0)
+  );
+  const visibleTags = showAll ? tags : tags.slice(0, VISIBLE_TAGS);
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Tags</SidebarGroupLabel>
+      <SidebarMenu>
+        {tagsQuery.isPending &&
+          Array.from({ length: 4 }, (_, index) => (
+            <SidebarMenuItem key={index}>
+              <SidebarMenuSkeleton showIcon />
+            </SidebarMenuItem>
+          ))}
+        {tagsQuery.isError && (
+          <p className="flex items-center gap-2 px-2 text-xs text-muted-foreground">
+            Could not load tags.
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => tagsQuery.refetch()}
+            >
+              Retry
+            </Button>
+          </p>
+        )}
+        {visibleTags.map(({ slug, name }) => (
+          <SidebarMenuItem key={slug}>
+            <SidebarMenuButton
+              asChild
+              isActive={pathname === "/posts" && activeTag === slug}
+            >
+              <Link href={`/posts?tag=${encodeURIComponent(slug)}`}>
+                <Hash />
+                <span>{name}</span>
+              </Link>
+            </SidebarMenuButton>
+            {counts[slug] !== undefined && (
+              <SidebarMenuBadge>{counts[slug]}</SidebarMenuBadge>
+            )}
+          </SidebarMenuItem>
+        ))}
+        {tags.length > VISIBLE_TAGS && (
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              className="text-sidebar-foreground/70"
+              onClick={() => setShowAll((showAll) => !showAll)}
+            >
+              <span>{showAll ? "Show less" : `Show all ${tags.length}`}</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        )}
+      </SidebarMenu>
+    </SidebarGroup>
+  );
+}
@@ -0,0 +1,23 @@
+import Link from "next/link";
+import { badgeVariants } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+// Opens the posts list filtered by the tag
+export const TagBadge = ({
+  tag,
+  className,
+}: {
+  tag: string;
+  className?: string;
+}) => (
+  <Link
+    href={`/posts?tag=${encodeURIComponent(tag)}`}
+    className={cn(
+      badgeVariants({ variant: "outline" }),
+      "hover:bg-accent hover:text-accent-foreground",
+      className
+    )}
+  >
+    #{tag}
+  </Link>
+);
@@ -0,0 +1,61 @@
+import { apiClient } from "@/lib/api-client";
+import {
+  commentOverlayStore,
+  createLocalCommentId,
+} from "@/lib/comment-overlay";
+import { CURRENT_USER_ID } from "@/lib/current-user";
+import { isLocalPostId } from "@/lib/post-overlay";
+import { queryKeys } from "@/lib/query-keys";
+import { commentSchema, IComment } from "@/types/comment";
+import { IUser } from "@/types/user";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+export type NewComment = Pick<IComment, "postId" | "body" | "parentId">;
+
+// Posts created in this browser don't exist on the server, so comments on
+// them never leave it either
+const addComment = ({ postId, body }: NewComment) =>
+  isLocalPostId(postId)
+    ? Promise.resolve<Partial<IComment>>({})
+    : apiClient.post("/comments/add", {
+        schema: commentSchema,
+        body: { body, postId: +postId, userId: +CURRENT_USER_ID },
+      });
+
+// The comment shows up at the end of the list (and in the total) while the
+// request is in flight, through the comment overlay rather than the cache so
+// that refetches, which never include it, don't drop it again
+export const useAddComment = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: addComment,
+    onMutate: ({ postId, body, parentId }) => {
+      const user = queryClient.getQueryData<IUser>(
+        queryKeys.users.detail(CURRENT_USER_ID)
+      );
+      const comment: IComment = {
+        id: createLocalCommentId(),
+        postId,
+        body,
+        parentId,
+        user: {
+          id: CURRENT_USER_ID,
+          fullName: user ? `${user.firstName} ${user.lastName}` : "You",
+        },
+      };
+      commentOverlayStore.addComment(comment);
+
+      return { localId: comment.id };
+    },
+    onError: (_error, _comment, context) => {
+      if (context) commentOverlayStore.removeComment(context.localId);
+    },
+    onSuccess: (comment, { parentId }, context) => {
+      // The reply's parent is only known here
+      commentOverlayStore.saveComment(context.localId, {
+        ...comment,
+        parentId,
+      });
+    },
+  });
+};
@@ -1,23 +1,68 @@
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api-client";
+import { CURRENT_USER_ID } from "@/lib/current-user";
+import { postDraftStore } from "@/lib/post-drafts";
+import { createLocalPostId, postOverlayStore } from "@/lib/post-overlay";
+import { IPost, postSchema } from "@/types/post";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
 
-const addPost = async (data: object) => {
-    const res = await fetch("https://dummyjson.com/posts/add", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-            userId: 5,
-            ...data,
-        }),
+export type NewPost = Pick<IPost, "title" | "body"> &
+    Partial<Pick<IPost, "tags" | "imageUrl">> & {
+        // The draft the post was written in. It is removed while the post is
+        // being added, so it can't be restored and sent twice, and put back
+        // if adding fails.
+        draftId?: string;
+    };
+
+const addPost = ({ title, body, tags, imageUrl }: NewPost) =>
+    apiClient.post("/posts/add", {
+        schema: postSchema,
+        body: {
+            userId: +CURRENT_USER_ID,
+            title,
+            body,
+            tags,
+            imageUrl,
+        },
     });
-    return await res.json();
-};
 
+// New posts live in the post overlay rather than the cache: pending while the
+// request is in flight, then saved.
+// Feedback lives here rather than in mutate() callbacks because the dialog
+// that submits the post is closed before the request settles.
 export const useAddPost = () => {
-    const queryClient = useQueryClient();
     return useMutation({
         mutationFn: addPost,
-        onSuccess: () => {
-            return queryClient.invalidateQueries({ queryKey: ["posts"] });
+        onMutate: ({ title, body, tags = [], imageUrl, draftId }) => {
+            const post: IPost = {
+                id: createLocalPostId(),
+                userId: CURRENT_USER_ID,
+                title,
+                body,
+                tags,
+                imageUrl,
+                reactions: { likes: 0, dislikes: 0 },
+                views: 0,
+            };
+            postOverlayStore.addCreatedPost(post);
+            if (draftId) postDraftStore.removeDraft(draftId);
+
+            return { localId: post.id };
+        },
+        onError: (error, { draftId, tags = [], ...values }, context) => {
+            if (context) postOverlayStore.removeCreatedPost(context.localId);
+            if (draftId) {
+                postDraftStore.saveDraft({ id: draftId, tags, ...values });
+            }
+            toast("Failed to add post", {
+                description: draftId
+                    ? "Your draft was kept, open it from the sidebar to try again."
+                    : error.message,
+            });
+        },
+        onSuccess: (post, _variables, context) => {
+            postOverlayStore.saveCreatedPost(context.localId, post);
+            toast("Post added successfully");
         },
     });
 };
@@ -1,20 +1,21 @@
+import {
+  applyCommentOverlay,
+  commentOverlayStore,
+} from "@/lib/comment-overlay";
+import { flattenCommentPages, getComments } from "@/lib/queries/comments";
 import { ICommentResponse } from "@/types/comment";
-import { useQuery } from "@tanstack/react-query";
+import { InfiniteData, useInfiniteQuery } from "@tanstack/react-query";
+import { useCallback } from "react";
+import { useLocalStore } from "@/hooks/use-local-store";
 
-export const getComments = (postId: string) => ({
-  queryKey: ["post:comments", { postId }],
-  queryFn: async () => {
-    const response = await fetch(
-      `https://dummyjson.com/posts/${postId}/comments`
-    );
-    if (!response.ok) {
-      throw new Error("Error fetching data");
-    }
-    const data = await response.json();
-    return data as ICommentResponse;
-  },
-  enabled: !!postId,
-});
-
-export const useComments = ({ postId }: { postId: string }) =>
-  useQuery({ ...getComments(postId) });
+export const useComments = ({ postId }: { postId: string }) => {
+  const overlay = useLocalStore(commentOverlayStore);
+  return useInfiniteQuery({
+    ...getComments(postId),
+    select: useCallback(
+      (data: InfiniteData<ICommentResponse, number>) =>
+        applyCommentOverlay(flattenCommentPages(data), postId, overlay),
+      [postId, overlay]
+    ),
+  });
+};
@@ -0,0 +1,31 @@
+import { apiClient } from "@/lib/api-client";
+import {
+  commentOverlayStore,
+  isLocalCommentId,
+} from "@/lib/comment-overlay";
+import { commentSchema, IComment } from "@/types/comment";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+const deleteComment = (comment: IComment) =>
+  isLocalCommentId(comment.id)
+    ? Promise.resolve(comment)
+    : apiClient.delete(`/comments/${comment.id}`, { schema: commentSchema });
+
+// Local comments are simply dropped; server ones are hidden through the
+// comment overlay, which also keeps the comment count in step
+export const useDeleteComment = () =>
+  useMutation({
+    mutationFn: deleteComment,
+    onMutate: (comment) => {
+      if (isLocalCommentId(comment.id)) {
+        commentOverlayStore.removeComment(comment.id);
+      } else {
+        commentOverlayStore.hideComment(comment.id);
+      }
+    },
+    onError: (error, comment) => {
+      commentOverlayStore.showComment(comment.id);
+      toast("Failed to delete comment", { description: error.message });
+    },
+  });
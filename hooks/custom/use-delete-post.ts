@@ -0,0 +1,73 @@
+import { apiClient } from "@/lib/api-client";
+import { bookmarkStore } from "@/lib/bookmarks";
+import { isLocalPostId, postOverlayStore } from "@/lib/post-overlay";
+import { queryKeys } from "@/lib/query-keys";
+import { IPost, postSchema } from "@/types/post";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+export const UNDO_WINDOW = 5000;
+
+class DeleteUndoneError extends Error {
+  constructor() {
+    super("Delete was undone");
+    this.name = "DeleteUndoneError";
+  }
+}
+
+// Resolves once the undo window has passed, rejects if Undo is clicked first
+const waitForUndoWindow = (post: IPost) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, UNDO_WINDOW);
+
+    toast("Post deleted", {
+      description: post.title,
+      duration: UNDO_WINDOW,
+      action: {
+        label: "Undo",
+        onClick: () => {
+          clearTimeout(timer);
+          reject(new DeleteUndoneError());
+        },
+      },
+    });
+  });
+
+const deletePost = async (post: IPost) => {
+  await waitForUndoWindow(post);
+  if (isLocalPostId(post.id)) return post;
+  return apiClient.delete(`/posts/${post.id}`, { schema: postSchema });
+};
+
+// The post is hidden from every list page through the post overlay rather
+// than by editing the cached pages, so refetches and server renders during
+// (or after) the undo window can't bring it back. It is only hidden for good
+// once the delete went through.
+export const useDeletePost = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deletePost,
+    onMutate: (post) => {
+      postOverlayStore.hidePost(post.id);
+    },
+    onError: (error, post) => {
+      postOverlayStore.showPost(post.id);
+
+      if (error instanceof DeleteUndoneError) {
+        toast("Post restored");
+      } else {
+        toast("Failed to delete post", { description: error.message });
+      }
+    },
+    onSuccess: (post) => {
+      if (isLocalPostId(post.id)) {
+        postOverlayStore.removeCreatedPost(post.id);
+        postOverlayStore.showPost(post.id);
+      } else {
+        postOverlayStore.confirmDelete(post.id);
+      }
+      bookmarkStore.remove(post.id);
+      queryClient.removeQueries({ queryKey: queryKeys.posts.detail(post.id) });
+    },
+  });
+};
@@ -0,0 +1,6 @@
+import { getPostTagCounts, getPostTags } from "@/lib/queries/posts";
+import { useQuery } from "@tanstack/react-query";
+
+export const usePostTags = () => useQuery(getPostTags());
+
+export const usePostTagCounts = () => useQuery(getPostTagCounts());
@@ -1,29 +1,47 @@
-import { IPost } from "@/types/post";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { applyPostEdit, postOverlayStore } from "@/lib/post-overlay";
+import { queryKeys } from "@/lib/query-keys";
+import { IPost, IPostResponse } from "@/types/post";
+import { QueryClient } from "@tanstack/react-query";
+import { useCallback } from "react";
 
-export const getPost = (postId: string) => ({
-  queryKey: ["posts", { postId }],
-  queryFn: async () => {
-    const response = await fetch(`https://dummyjson.com/posts/${postId}`);
-    if (!response.ok) {
-      throw new Error("Error fetching data");
+// Looks the post up in every cached list page and search result, preferring
+// the most recently fetched copy
+const findCachedPost = (queryClient: QueryClient, postId: string) => {
+  const candidates = [
+    ...queryClient
+      .getQueriesData<IPostResponse>({ queryKey: queryKeys.posts.lists() })
+      .map(([queryKey, data]) => ({ queryKey, posts: data?.posts })),
+    ...queryClient
+      .getQueriesData<IPost[]>({ queryKey: queryKeys.posts.searches() })
+      .map(([queryKey, data]) => ({ queryKey, posts: data })),
+  ];
+
+  let match: { post: IPost; updatedAt: number } | undefined;
+
+  candidates.forEach(({ queryKey, posts }) => {
+    const post = posts?.find((post) => post.id === postId);
+    if (!post) return;
+
+    const updatedAt = queryClient.getQueryState(queryKey)?.dataUpdatedAt ?? 0;
+    if (!match || updatedAt > match.updatedAt) {
+      match = { post, updatedAt };
     }
-    const data = await response.json();
-    return data as Promise<IPost>;
-  },
-  enabled: Boolean(postId),
-  staleTime: 5000,
+  });
+
+  return match;
+};
+
+// Seeds the detail query so opening a post from a list renders immediately;
+// the detail is still refetched once the seeded copy goes stale
+export const getCachedPostData = (queryClient: QueryClient, postId: string) => ({
+  initialData: () => findCachedPost(queryClient, postId)?.post,
+  initialDataUpdatedAt: () => findCachedPost(queryClient, postId)?.updatedAt,
 });
 
-export const usePost = ({ postId }: { postId: string }) => {
-  const queryClient = useQueryClient();
-  return useQuery({
-    ...getPost(postId),
-    initialData: () => {
-      // console.log("cache query:", queryClient.getQueryData(["posts"]));
-      return (queryClient.getQueryData(["posts"]) as IPost[])?.find(
-        (post) => post.id === postId
-      );
-    },
-  });
+// `select` for post detail queries: the cache holds what the server sent,
+// local edits are applied on the way out
+export const useSelectPost = () => {
+  const overlay = useLocalStore(postOverlayStore);
+  return useCallback((post: IPost) => applyPostEdit(post, overlay), [overlay]);
 };
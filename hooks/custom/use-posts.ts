@@ -1,54 +1,43 @@
-import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { parseAsString, parseAsStringLiteral, useQueryState } from "nuqs";
+import { useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { useQueryStates } from "nuqs";
 
-import { orderValues } from "@/components/sidebar/sort-nav";
+import { getPostsQueryOptions } from "@/lib/queries/posts";
+import { postsSearchParams } from "@/lib/search-params";
+import { applyPostOverlay, postOverlayStore } from "@/lib/post-overlay";
 import { IPostResponse } from "@/types/post";
-import { useEffect } from "react";
-
-export const MAX_POST_PER_PAGE: number = 9;
-
-export const getPosts = async (
-  sortBy: string | null = null,
-  order: string | null = null,
-  page: string
-) => {
-  const response = await fetch(
-    `https://dummyjson.com/posts?page=${page}&limit=${MAX_POST_PER_PAGE}&skip=${
-      (+page - 1) * MAX_POST_PER_PAGE
-    }${sortBy && order ? `&sortBy=${sortBy}&order=${order}` : ""}`
-  );
-  if (!response.ok) {
-    throw new Error("Error fetching data");
-  }
-  const data = await response.json();
-  const postsResponse = data as IPostResponse;
-  return postsResponse;
-};
-
-export const getPostsQueryOptions = (
-  sortBy: string | null,
-  order: string | null,
-  page: string
-) => ({
-  queryKey: ["posts", { sortBy, order, page }],
-  queryFn: () => getPosts(sortBy, order, page),
-  staleTime: 300000,
-  enabled: Boolean(sortBy) || Boolean(order) || Boolean(page),
-});
+import { useLocalStore } from "@/hooks/use-local-store";
+import { useCallback, useDeferredValue, useEffect } from "react";
 
 export const usePosts = () => {
-  const [order] = useQueryState("order", parseAsStringLiteral(orderValues));
-  const [sortBy] = useQueryState("sortBy", parseAsString);
-  const [page] = useQueryState("page", parseAsString.withDefault("1"));
+  const [params] = useQueryStates(postsSearchParams);
+  // Deferred, so a new page, sort or tag keeps the current posts on screen
+  // while the next ones load instead of suspending back to the skeleton
+  const sortBy = useDeferredValue(params.sortBy);
+  const order = useDeferredValue(params.order);
+  const page = useDeferredValue(params.page);
+  const tag = useDeferredValue(params.tag);
+  const isStale =
+    sortBy !== params.sortBy ||
+    order !== params.order ||
+    page !== params.page ||
+    tag !== params.tag;
+  const overlay = useLocalStore(postOverlayStore);
 
   const queryClient = useQueryClient();
 
   useEffect(() => {
-    queryClient.prefetchQuery(getPostsQueryOptions(sortBy, order, page + 1));
-  }, [sortBy, order, page, queryClient]);
-
-  return useQuery({
-    ...getPostsQueryOptions(sortBy, order, page),
-    placeholderData: (previousData) => previousData,
+    queryClient.prefetchQuery(
+      getPostsQueryOptions(sortBy, order, String(+page + 1), tag)
+    );
+  }, [sortBy, order, page, tag, queryClient]);
+
+  const query = useSuspenseQuery({
+    ...getPostsQueryOptions(sortBy, order, page, tag),
+    select: useCallback(
+      (data: IPostResponse) => applyPostOverlay(data, overlay),
+      [overlay]
+    ),
   });
+
+  return { ...query, isFetching: query.isFetching || isStale, isStale };
 };
@@ -0,0 +1,46 @@
+import { apiClient } from "@/lib/api-client";
+import { isLocalPostId } from "@/lib/post-overlay";
+import {
+  getReactionCounts,
+  PostReaction,
+  postReactionStore,
+} from "@/lib/post-reactions";
+import { IPost } from "@/types/post";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+interface PostReactionChange {
+  post: IPost;
+  // null takes the current reaction back
+  reaction: PostReaction | null;
+}
+
+// Local posts don't exist on the server, so there is nothing to send
+const sendReaction = async ({ post, reaction }: PostReactionChange) => {
+  if (isLocalPostId(post.id)) return;
+
+  await apiClient.put(`/posts/${post.id}`, {
+    body: {
+      reactions: getReactionCounts(post.reactions, reaction ?? undefined),
+    },
+  });
+};
+
+// The reaction store is the source of truth for the counts shown, so it is
+// updated right away and only rolled back if the request fails
+export const useReactToPost = () =>
+  useMutation({
+    mutationFn: sendReaction,
+    onMutate: ({ post, reaction }) => {
+      const previous = postReactionStore.getReaction(post.id);
+      postReactionStore.setReaction(post.id, reaction);
+
+      return { previous };
+    },
+    onError: (error, { post }, context) => {
+      if (context) {
+        postReactionStore.setReaction(post.id, context.previous ?? null);
+      }
+      toast("Failed to save your reaction", { description: error.message });
+    },
+  });
@@ -1,25 +1,32 @@
-import { IPost } from "@/types/post";
+import { useLocalStore } from "@/hooks/use-local-store";
+import { apiClient } from "@/lib/api-client";
+import { applyPostsOverlay, postOverlayStore } from "@/lib/post-overlay";
+import { queryKeys } from "@/lib/query-keys";
+import { IPost, postResponseSchema } from "@/types/post";
 import { useQuery } from "@tanstack/react-query";
 import { parseAsString, useQueryState } from "nuqs";
+import { useCallback } from "react";
 
 export const useSearchPosts = () => {
   const [query] = useQueryState("search", parseAsString);
+  const overlay = useLocalStore(postOverlayStore);
 
   return useQuery({
-    queryKey: ["posts:search", query],
+    queryKey: queryKeys.posts.search(query),
     queryFn: async ({ signal }) => {
-      const response = await fetch(
-        `https://dummyjson.com/posts/search?q=${query}&limit=5`,
-        { signal }
-      );
-      if (!response.ok) {
-        throw new Error("Error fetching data");
-      }
-      const data = await response.json();
-      return data.posts as IPost[];
+      const data = await apiClient.get("/posts/search", {
+        schema: postResponseSchema,
+        params: { q: query, limit: 5 },
+        signal,
+      });
+      return data.posts;
     },
     enabled: Boolean(query),
     refetchOnWindowFocus: false,
     gcTime: 60 * 1000,
+    select: useCallback(
+      (posts: IPost[]) => applyPostsOverlay(posts, overlay),
+      [overlay]
+    ),
   });
 };
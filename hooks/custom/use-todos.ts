@@ -1,5 +1,7 @@
-import { ITodo, ITodoResponse } from "@/types/todo";
-import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api-client";
+import { queryKeys } from "@/lib/query-keys";
+import { ITodo, todoResponseSchema } from "@/types/todo";
+import { useSuspenseInfiniteQuery } from "@tanstack/react-query";
 
 export const MAX_TODO_PER_PAGE = 15;
 
@@ -11,17 +13,13 @@ interface PaginatedTodos {
 }
 
 const getTodos = async (page: number): Promise<PaginatedTodos> => {
-  const response = await fetch(
-    `https://dummyjson.com/todos?limit=${MAX_TODO_PER_PAGE}&skip=${
-      (page - 1) * MAX_TODO_PER_PAGE
-    }`
-  );
-
-  if (!response.ok) {
-    throw new Error("Failed to fetch todos");
-  }
-
-  const data: ITodoResponse = await response.json();
+  const data = await apiClient.get("/todos", {
+    schema: todoResponseSchema,
+    params: {
+      limit: MAX_TODO_PER_PAGE,
+      skip: (page - 1) * MAX_TODO_PER_PAGE,
+    },
+  });
   const totalPages = Math.ceil(data.total / data.limit);
 
   return {
@@ -33,8 +31,8 @@ const getTodos = async (page: number): Promise<PaginatedTodos> => {
 };
 
 export const useTodos = () =>
-  useInfiniteQuery({
-    queryKey: ["todos"],
+  useSuspenseInfiniteQuery({
+    queryKey: queryKeys.todos.lists(),
     initialPageParam: 1,
     queryFn: ({ pageParam }) => getTodos(pageParam),
     getNextPageParam: (lastPage, allPages, lastPageParam) => {
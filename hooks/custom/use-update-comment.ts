@@ -0,0 +1,42 @@
+import { apiClient } from "@/lib/api-client";
+import {
+  commentOverlayStore,
+  isLocalCommentId,
+} from "@/lib/comment-overlay";
+import { commentSchema, IComment } from "@/types/comment";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+export interface CommentUpdate {
+  comment: IComment;
+  body: string;
+}
+
+// Comments written in this browser only exist in the overlay
+const setCommentBody = (commentId: string, body: string) => {
+  if (isLocalCommentId(commentId)) {
+    commentOverlayStore.saveComment(commentId, { body });
+  } else {
+    commentOverlayStore.editComment(commentId, body);
+  }
+};
+
+const updateComment = ({ comment, body }: CommentUpdate) =>
+  isLocalCommentId(comment.id)
+    ? Promise.resolve(comment)
+    : apiClient.put(`/comments/${comment.id}`, {
+        schema: commentSchema,
+        body: { body },
+      });
+
+// Edits go through the comment overlay (see useAddComment), so the list
+// changes right away and survives refetches
+export const useUpdateComment = () =>
+  useMutation({
+    mutationFn: updateComment,
+    onMutate: ({ comment, body }) => setCommentBody(comment.id, body),
+    onError: (error, { comment }) => {
+      setCommentBody(comment.id, comment.body);
+      toast("Failed to update comment", { description: error.message });
+    },
+  });
@@ -0,0 +1,37 @@
+import { apiClient } from "@/lib/api-client";
+import { isLocalPostId, PostEdit, postOverlayStore } from "@/lib/post-overlay";
+import { IPost, postSchema } from "@/types/post";
+import { useMutation } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+export type PostUpdate = Pick<IPost, "id"> & PostEdit;
+
+const updateLocalPost = async ({ id, ...data }: PostUpdate) => {
+  postOverlayStore.saveCreatedPost(id, data);
+  return postOverlayStore.getCreatedPost(id) as IPost;
+};
+
+// Local posts don't exist on the server, so they are edited in the overlay
+const updatePost = ({ id, ...data }: PostUpdate) =>
+  isLocalPostId(id)
+    ? updateLocalPost({ id, ...data })
+    : apiClient.put(`/posts/${id}`, { schema: postSchema, body: data });
+
+// The edit is kept in the post overlay, applied over every list page and
+// detail through `select`, rather than in the cache
+export const useUpdatePost = () =>
+  useMutation({
+    mutationFn: updatePost,
+    onMutate: ({ id, ...data }) => {
+      if (isLocalPostId(id)) return;
+
+      const previous = postOverlayStore.getPostEdit(id);
+      postOverlayStore.setPostEdit(id, { ...previous, ...data });
+
+      return { previous };
+    },
+    onError: (error, { id }, context) => {
+      if (context) postOverlayStore.setPostEdit(id, context.previous);
+      toast("Failed to update post", { description: error.message });
+    },
+  });
@@ -0,0 +1,20 @@
+import { localApiClient } from "@/lib/api-client";
+import { resizeImage } from "@/lib/image";
+import { uploadSchema } from "@/types/upload";
+import { useMutation } from "@tanstack/react-query";
+
+// Lets forms find out (via useIsMutating) whether an upload is in flight
+export const UPLOAD_IMAGE_MUTATION_KEY = ["upload-image"] as const;
+
+const uploadImage = async (file: File) => {
+  const body = new FormData();
+  body.append("file", await resizeImage(file));
+
+  return localApiClient.post("/uploads", { schema: uploadSchema, body });
+};
+
+export const useUploadImage = () =>
+  useMutation({
+    mutationKey: UPLOAD_IMAGE_MUTATION_KEY,
+    mutationFn: uploadImage,
+  });
@@ -1,17 +1,11 @@
-import { IUser } from "@/types/user";
+import { queryKeys } from "@/lib/query-keys";
+import { loadUser } from "@/lib/user-loader";
 import { useQuery } from "@tanstack/react-query";
 
+// Batched with every other user requested in the same tick
 export const useUser = ({ id }: { id: string | undefined }) =>
   useQuery({
-    queryKey: ["author", { id }],
-    queryFn: async () => {
-      const response = await fetch(`https://dummyjson.com/users/${id}`);
-      if (!response.ok) {
-        throw new Error("Error fetching data");
-      }
-      const data = await response.json();
-
-      return data as Promise<IUser>;
-    },
+    queryKey: queryKeys.users.detail(id),
+    queryFn: () => loadUser(String(id)),
     enabled: Boolean(id),
   });
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import type { Store } from "@/lib/local-store";
+
+export const useLocalStore = <T>(store: Store<T>) =>
+  useSyncExternalStore(store.subscribe, store.get, store.getServerSnapshot);
@@ -0,0 +1,134 @@
+import type { ZodType, ZodTypeDef } from "zod";
+import { ApiError } from "@/lib/api-error";
+
+export const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_BASE_URL ?? "https://dummyjson.com";
+
+type QueryParamValue = string | number | boolean | null | undefined;
+
+export type QueryParams = Record<string, QueryParamValue>;
+
+export interface RequestOptions<T = unknown> {
+  params?: QueryParams;
+  body?: unknown;
+  headers?: HeadersInit;
+  signal?: AbortSignal;
+  // Parses the response; input is `unknown` so schemas may transform (e.g. ids)
+  schema?: ZodType<T, ZodTypeDef, unknown>;
+}
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+const DEFAULT_HEADERS: HeadersInit = {
+  Accept: "application/json",
+};
+
+// Skips empty values so callers can pass optional filters (e.g. sortBy) as-is
+export const buildQueryString = (params: QueryParams = {}) => {
+  const searchParams = new URLSearchParams();
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === null || value === undefined || value === "") return;
+    searchParams.append(key, String(value));
+  });
+
+  const queryString = searchParams.toString();
+  return queryString ? `?${queryString}` : "";
+};
+
+const parseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+export const createApiClient = ({
+  baseUrl,
+  headers: baseHeaders,
+}: {
+  baseUrl: string;
+  headers?: HeadersInit;
+}) => {
+  const request = async <T>(
+    method: HttpMethod,
+    path: string,
+    { params, body, headers, signal, schema }: RequestOptions<T> = {}
+  ): Promise<T> => {
+    const url = `${baseUrl}${path}${buildQueryString(params)}`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        signal,
+        headers: {
+          ...DEFAULT_HEADERS,
+          ...baseHeaders,
+          ...(body !== undefined &&
+            !(body instanceof FormData) && {
+              "Content-Type": "application/json",
+            }),
+          ...headers,
+        },
+        // FormData is sent as-is so fetch sets the multipart boundary itself
+        body:
+          body instanceof FormData || body === undefined
+            ? body
+            : JSON.stringify(body),
+      });
+    } catch (error) {
+      // Let react-query see cancellations as-is instead of as failures
+      if (signal?.aborted) throw error;
+      throw new ApiError({ kind: "network", url, cause: error });
+    }
+
+    const data = await parseBody(response);
+
+    if (!response.ok) {
+      throw new ApiError({
+        kind: "http",
+        url,
+        status: response.status,
+        body: data,
+      });
+    }
+
+    if (!schema) return data as T;
+
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      throw new ApiError({
+        kind: "validation",
+        url,
+        status: response.status,
+        body: data,
+        issues: result.error.issues,
+      });
+    }
+
+    return result.data;
+  };
+
+  return {
+    get: <T>(path: string, options?: RequestOptions<T>) =>
+      request<T>("GET", path, options),
+    post: <T>(path: string, options?: RequestOptions<T>) =>
+      request<T>("POST", path, options),
+    put: <T>(path: string, options?: RequestOptions<T>) =>
+      request<T>("PUT", path, options),
+    patch: <T>(path: string, options?: RequestOptions<T>) =>
+      request<T>("PATCH", path, options),
+    delete: <T>(path: string, options?: RequestOptions<T>) =>
+      request<T>("DELETE", path, options),
+  };
+};
+
+export const apiClient = createApiClient({ baseUrl: API_BASE_URL });
+
+// This app's own route handlers (app/api), only usable from the browser
+export const localApiClient = createApiClient({ baseUrl: "/api" });
@@ -0,0 +1,85 @@
+import type { ZodIssue } from "zod";
+
+export type ApiErrorKind = "http" | "network" | "validation";
+
+interface ApiErrorOptions {
+  kind: ApiErrorKind;
+  url: string;
+  status?: number;
+  body?: unknown;
+  issues?: ZodIssue[];
+  cause?: unknown;
+}
+
+const getBodyMessage = (body: unknown) => {
+  if (body && typeof body === "object" && "message" in body) {
+    return String(body.message);
+  }
+  return undefined;
+};
+
+const formatIssues = (issues: ZodIssue[]) =>
+  issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+
+const getMessage = ({ kind, url, status, body, issues }: ApiErrorOptions) => {
+  switch (kind) {
+    case "network":
+      return `Could not reach ${url}`;
+    case "validation":
+      return `Unexpected response from ${url} (${formatIssues(issues ?? [])})`;
+    default:
+      return (
+        getBodyMessage(body) ?? `Request to ${url} failed with status ${status}`
+      );
+  }
+};
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly url: string;
+  // 0 when the request never got a response (offline, DNS, CORS...)
+  readonly status: number;
+  readonly body: unknown;
+  // Schema violations, only set for "validation" errors
+  readonly issues: ZodIssue[];
+
+  constructor(options: ApiErrorOptions) {
+    super(getMessage(options), { cause: options.cause });
+    this.name = "ApiError";
+    this.kind = options.kind;
+    this.url = options.url;
+    this.status = options.status ?? 0;
+    this.body = options.body ?? null;
+    this.issues = options.issues ?? [];
+  }
+
+  get isNetworkError() {
+    return this.kind === "network";
+  }
+
+  get isValidationError() {
+    return this.kind === "validation";
+  }
+
+  get isNotFound() {
+    return this.status === 404;
+  }
+
+  get isClientError() {
+    return this.status >= 400 && this.status < 500;
+  }
+
+  // 4xx means the request itself is wrong, so trying again won't help,
+  // except for timeouts and rate limiting. Neither will a malformed payload.
+  get isRetryable() {
+    if (this.isValidationError) return false;
+    if (this.isNetworkError) return true;
+    if (this.status === 408 || this.status === 429) return true;
+    return !this.isClientError;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError =>
+  error instanceof ApiError;
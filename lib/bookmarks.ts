@@ -0,0 +1,58 @@
+import { z } from "zod";
+import {
+  createLocalStorage,
+  createStore,
+  StoreStorage,
+} from "@/lib/local-store";
+import { bookmarkExportSchema, IBookmarkExport } from "@/types/bookmark";
+
+// Where bookmarked post ids are kept. Only localStorage exists today, but the
+// store doesn't care, so a server-backed list can be swapped in later.
+export type BookmarkStorage = StoreStorage<string[]>;
+
+const EMPTY_BOOKMARKS: string[] = [];
+
+export const localBookmarkStorage: BookmarkStorage = createLocalStorage(
+  "bookmarks",
+  EMPTY_BOOKMARKS,
+  (stored) => z.array(z.string()).parse(stored)
+);
+
+export const createBookmarkStore = (storage: BookmarkStorage) => {
+  // Newest first
+  const store = createStore(storage, EMPTY_BOOKMARKS);
+  const { get: getPostIds, set: setPostIds } = store;
+
+  const remove = (postId: string) => {
+    const postIds = getPostIds();
+    if (!postIds.includes(postId)) return;
+    setPostIds(postIds.filter((id) => id !== postId));
+  };
+
+  return {
+    ...store,
+    isBookmarked: (postId: string) => getPostIds().includes(postId),
+    add: (postId: string) => {
+      const postIds = getPostIds();
+      if (postIds.includes(postId)) return;
+      setPostIds([postId, ...postIds]);
+    },
+    remove,
+    exportBookmarks: (): IBookmarkExport => ({
+      version: 1,
+      postIds: getPostIds(),
+    }),
+    // Merges into the current list; returns how many were new.
+    // Throws a ZodError when the data isn't an exported bookmark list.
+    importBookmarks: (data: unknown) => {
+      const postIds = getPostIds();
+      const imported = bookmarkExportSchema
+        .parse(data)
+        .postIds.filter((id) => !postIds.includes(id));
+      setPostIds([...new Set([...imported, ...postIds])]);
+      return new Set(imported).size;
+    },
+  };
+};
+
+export const bookmarkStore = createBookmarkStore(localBookmarkStorage);
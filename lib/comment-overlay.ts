@@ -0,0 +1,150 @@
+import { z } from "zod";
+import {
+  createLocalStore,
+  parseStoredList,
+  parseStoredRecord,
+} from "@/lib/local-store";
+import { commentSchema, IComment, ICommentResponse } from "@/types/comment";
+
+// The post overlay's counterpart for comments: new comments (and replies,
+// which dummyjson has no notion of), edits and deletes are kept locally and
+// applied to whatever the server returns.
+
+export interface CreatedComment {
+  comment: IComment;
+  // "pending" until the add request settles
+  status: "pending" | "saved";
+}
+
+export interface CommentOverlay {
+  createdComments: CreatedComment[];
+  // New bodies of edited server comments, by comment id
+  editedBodies: Record<string, string>;
+  deletedIds: string[];
+}
+
+const LOCAL_ID_PREFIX = "local-";
+
+const EMPTY_OVERLAY: CommentOverlay = {
+  createdComments: [],
+  editedBodies: {},
+  deletedIds: [],
+};
+
+// Adds that never settled (e.g. the tab was closed) are dropped
+const savedCommentSchema = z.object({
+  comment: commentSchema,
+  status: z.literal("saved"),
+});
+
+const overlayStore = createLocalStore<CommentOverlay>(
+  "commentOverlay",
+  EMPTY_OVERLAY,
+  (stored) => {
+    const overlay = z.record(z.unknown()).catch({}).parse(stored);
+    return {
+      createdComments: parseStoredList(
+        overlay.createdComments,
+        savedCommentSchema
+      ),
+      editedBodies: parseStoredRecord(overlay.editedBodies, z.string()),
+      deletedIds: parseStoredList(overlay.deletedIds, z.string()),
+    };
+  }
+);
+
+const updateOverlay = (
+  update: (overlay: CommentOverlay) => Partial<CommentOverlay>
+) => {
+  const overlay = overlayStore.get();
+  overlayStore.set({ ...overlay, ...update(overlay) });
+};
+
+const updateCreatedComments = (
+  update: (createdComments: CreatedComment[]) => CreatedComment[]
+) =>
+  updateOverlay(({ createdComments }) => ({
+    createdComments: update(createdComments),
+  }));
+
+export const createLocalCommentId = () =>
+  `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`;
+
+// Comments written in this browser; the server has never heard of these ids
+export const isLocalCommentId = (commentId: string) =>
+  commentId.startsWith(LOCAL_ID_PREFIX);
+
+export const commentOverlayStore = {
+  ...overlayStore,
+  addComment: (comment: IComment) =>
+    updateCreatedComments((createdComments) => [
+      ...createdComments,
+      { comment, status: "pending" },
+    ]),
+  saveComment: (commentId: string, data: Partial<IComment>) =>
+    updateCreatedComments((createdComments) =>
+      createdComments.map((createdComment) =>
+        createdComment.comment.id === commentId
+          ? {
+              comment: { ...createdComment.comment, ...data, id: commentId },
+              status: "saved",
+            }
+          : createdComment
+      )
+    ),
+  removeComment: (commentId: string) =>
+    updateCreatedComments((createdComments) =>
+      createdComments.filter(({ comment }) => comment.id !== commentId)
+    ),
+  editComment: (commentId: string, body: string) =>
+    updateOverlay(({ editedBodies }) => ({
+      editedBodies: { ...editedBodies, [commentId]: body },
+    })),
+  hideComment: (commentId: string) =>
+    updateOverlay(({ deletedIds }) => ({
+      deletedIds: deletedIds.includes(commentId)
+        ? deletedIds
+        : [...deletedIds, commentId],
+    })),
+  showComment: (commentId: string) =>
+    updateOverlay(({ deletedIds }) => ({
+      deletedIds: deletedIds.filter((id) => id !== commentId),
+    })),
+};
+
+export const isPendingComment = (
+  overlay: CommentOverlay,
+  commentId: string
+) =>
+  overlay.createdComments.some(
+    ({ comment, status }) => comment.id === commentId && status === "pending"
+  );
+
+// Local comments go after the server's, oldest first like dummyjson's.
+// `total` is adjusted the same way as `comments`, so "showing X of total"
+// counts local comments on both sides.
+export const applyCommentOverlay = (
+  response: ICommentResponse,
+  postId: string,
+  { createdComments, editedBodies, deletedIds }: CommentOverlay
+): ICommentResponse => {
+  const serverComments = response.comments
+    .filter(({ id }) => !deletedIds.includes(id))
+    .map((comment) =>
+      comment.id in editedBodies
+        ? { ...comment, body: editedBodies[comment.id] }
+        : comment
+    );
+  const localComments = createdComments
+    .map(({ comment }) => comment)
+    .filter((comment) => comment.postId === postId);
+
+  return {
+    ...response,
+    comments: [...serverComments, ...localComments],
+    total:
+      response.total -
+      (response.comments.length - serverComments.length) +
+      localComments.length,
+  };
+};
@@ -0,0 +1,34 @@
+import { IComment } from "@/types/comment";
+
+export interface CommentThread {
+  comment: IComment;
+  replies: CommentThread[];
+}
+
+// Turns the flat, oldest-first list into threads. Replies whose parent isn't
+// in the list (deleted, or on a page that isn't loaded yet) start their own
+// thread.
+export const buildCommentThreads = (comments: IComment[]): CommentThread[] => {
+  const threads = new Map<string, CommentThread>(
+    comments.map((comment) => [comment.id, { comment, replies: [] }])
+  );
+  const roots: CommentThread[] = [];
+
+  threads.forEach((thread) => {
+    const parent = thread.comment.parentId
+      ? threads.get(thread.comment.parentId)
+      : undefined;
+
+    if (parent) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  });
+
+  return roots;
+};
+
+// Replies at every depth, for the "n replies" toggle
+export const countReplies = ({ replies }: CommentThread): number =>
+  replies.reduce((count, reply) => count + 1 + countReplies(reply), 0);
@@ -0,0 +1,2 @@
+// There is no auth in this app; everything is written as this dummyjson user
+export const CURRENT_USER_ID = "5";
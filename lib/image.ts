@@ -0,0 +1,55 @@
+// Photos straight off a phone are several MB; they are scaled down and
+// re-encoded in the browser before being uploaded
+
+const MAX_DIMENSION = 1600;
+const QUALITY = 0.8;
+const OUTPUT_TYPE = "image/webp";
+
+// The types the upload route accepts, with the extension each is stored under.
+// Shared by the route and the image input, so the browser never sends a file
+// the server would turn away.
+export const IMAGE_EXTENSIONS = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+} as const;
+
+export type ImageType = keyof typeof IMAGE_EXTENSIONS;
+
+// For a file input's `accept` attribute
+export const ACCEPTED_IMAGE_TYPES = Object.keys(IMAGE_EXTENSIONS).join(",");
+
+// Own keys only: `in` would also accept e.g. "constructor"
+export const isSupportedImageType = (type: string): type is ImageType =>
+  Object.hasOwn(IMAGE_EXTENSIONS, type);
+
+export const isImageFile = (file: File) => isSupportedImageType(file.type);
+
+export const resizeImage = async (file: File): Promise<Blob> => {
+  // A canvas only keeps the first frame, which would stop animated GIFs; the
+  // server's size limit still applies to them
+  if (file.type === "image/gif") return file;
+
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(
+    1,
+    MAX_DIMENSION / Math.max(bitmap.width, bitmap.height)
+  );
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, OUTPUT_TYPE, QUALITY)
+  );
+  if (!blob) throw new Error("Could not process the image");
+
+  // Re-encoding can make an already small image bigger
+  return blob.size < file.size ? blob : file;
+};
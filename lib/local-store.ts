@@ -0,0 +1,100 @@
+import type { ZodType, ZodTypeDef } from "zod";
+
+// The client-side state that outlives a reload (drafts, bookmarks, the local
+// overlays over dummyjson...) lives in stores like these: a value kept in
+// memory, saved on every change and read by components through
+// useLocalStore.
+
+// Where a store's value is kept between visits
+export interface StoreStorage<T> {
+  load: () => T;
+  save: (value: T) => void;
+}
+
+export interface Store<T> {
+  get: () => T;
+  set: (next: T) => void;
+  subscribe: (listener: () => void) => () => void;
+  // What the server renders, since it has no storage to read
+  getServerSnapshot: () => T;
+}
+
+// `parse` gets whatever JSON is stored, which may have been written by an
+// older version of the app. Throwing from it falls back to `empty`.
+export const createLocalStorage = <T>(
+  key: string,
+  empty: T,
+  parse: (stored: unknown) => T
+): StoreStorage<T> => ({
+  load: () => {
+    if (typeof window === "undefined") return empty;
+
+    try {
+      const stored = localStorage.getItem(key);
+      return stored === null ? empty : parse(JSON.parse(stored));
+    } catch {
+      return empty;
+    }
+  },
+  save: (value) => localStorage.setItem(key, JSON.stringify(value)),
+});
+
+type EntrySchema<T> = ZodType<T, ZodTypeDef, unknown>;
+
+const parseEntry = <T>(schema: EntrySchema<T>, entry: unknown) => {
+  const result = schema.safeParse(entry);
+  return result.success ? [result.data] : [];
+};
+
+// For `parse`: the entries of a stored list that `schema` accepts. One
+// unreadable entry is dropped on its own instead of taking the rest with it.
+export const parseStoredList = <T>(
+  stored: unknown,
+  schema: EntrySchema<T>
+): T[] =>
+  Array.isArray(stored)
+    ? stored.flatMap((entry) => parseEntry(schema, entry))
+    : [];
+
+// The same for a stored record, keyed by id
+export const parseStoredRecord = <T>(
+  stored: unknown,
+  schema: EntrySchema<T>
+): Record<string, T> =>
+  stored && typeof stored === "object" && !Array.isArray(stored)
+    ? Object.fromEntries(
+        Object.entries(stored).flatMap(([key, entry]) =>
+          parseEntry(schema, entry).map((value) => [key, value])
+        )
+      )
+    : {};
+
+export const createStore = <T>(
+  storage: StoreStorage<T>,
+  empty: T
+): Store<T> => {
+  let value = storage.load();
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => value,
+    set: (next) => {
+      value = next;
+      storage.save(next);
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getServerSnapshot: () => empty,
+  };
+};
+
+export const createLocalStore = <T>(
+  key: string,
+  empty: T,
+  parse: (stored: unknown) => T
+) => createStore(createLocalStorage(key, empty, parse), empty);
@@ -0,0 +1,33 @@
+// Post bodies are Markdown. Cards and other previews show a plain-text
+// excerpt so they aren't full of `#`, `**` and link syntax.
+
+const EXCERPT_LENGTH = 200;
+
+export const markdownToPlainText = (markdown: string) =>
+  markdown
+    // Code blocks say little out of context
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`([^`]*)`/g, "$1")
+    // Images and links keep their text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    // Headings, quotes and list markers
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    // Horizontal rules
+    .replace(/^\s*([-*_]\s*){3,}$/gm, " ")
+    // Emphasis; underscores only at word edges so snake_case survives
+    .replace(/(\*\*|\*|~~)(.+?)\1/g, "$2")
+    .replace(/\b(__|_)(.+?)\1\b/g, "$2")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Cut on a word boundary when there is one close enough
+export const getExcerpt = (markdown: string, maxLength = EXCERPT_LENGTH) => {
+  const text = markdownToPlainText(markdown);
+  if (text.length <= maxLength) return text;
+
+  const lastSpace = text.lastIndexOf(" ", maxLength);
+  const end = lastSpace > maxLength * 0.8 ? lastSpace : maxLength;
+  return `${text.slice(0, end).trimEnd()}…`;
+};
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { createLocalStore, parseStoredList } from "@/lib/local-store";
+import { IPost, postSchema } from "@/types/post";
+
+// Unsent posts from the AddNewPost dialog, saved to localStorage as the user
+// types so closing the dialog (or the tab) doesn't lose them
+
+export interface PostDraft
+  extends Pick<IPost, "title" | "body" | "tags" | "imageUrl"> {
+  id: string;
+  updatedAt: number;
+}
+
+const EMPTY_DRAFTS: PostDraft[] = [];
+
+const postDraftSchema = postSchema
+  .pick({ title: true, body: true, tags: true, imageUrl: true })
+  .extend({ id: z.string(), updatedAt: z.number() });
+
+// Newest first
+const draftsStore = createLocalStore<PostDraft[]>(
+  "postDrafts",
+  EMPTY_DRAFTS,
+  (stored) => parseStoredList(stored, postDraftSchema)
+);
+
+export const createDraftId = () => crypto.randomUUID();
+
+export const isEmptyDraft = ({
+  title,
+  body,
+  tags,
+  imageUrl,
+}: Omit<PostDraft, "id" | "updatedAt">) =>
+  !title.trim() && !body.trim() && tags.length === 0 && !imageUrl;
+
+export const getDraftName = (draft: PostDraft) =>
+  draft.title.trim() || "Untitled draft";
+
+export const postDraftStore = {
+  ...draftsStore,
+  getDraft: (draftId: string) =>
+    draftsStore.get().find(({ id }) => id === draftId),
+  saveDraft: (draft: Omit<PostDraft, "updatedAt">) =>
+    draftsStore.set([
+      { ...draft, updatedAt: Date.now() },
+      ...draftsStore.get().filter(({ id }) => id !== draft.id),
+    ]),
+  removeDraft: (draftId: string) => {
+    const drafts = draftsStore.get();
+    if (!drafts.some(({ id }) => id === draftId)) return;
+    draftsStore.set(drafts.filter(({ id }) => id !== draftId));
+  },
+};
@@ -0,0 +1,213 @@
+import { z } from "zod";
+import {
+  createLocalStorage,
+  createStore,
+  parseStoredList,
+  parseStoredRecord,
+} from "@/lib/local-store";
+import { IPost, IPostResponse, postSchema } from "@/types/post";
+
+// dummyjson accepts writes but never persists them, so every refetch (and
+// every server render) brings back the original posts. Local changes are
+// kept here, persisted to localStorage, and applied on top of whatever the
+// server returns. The comment overlay, post reactions and uploads follow the
+// same approach.
+//
+// dummyjson also hands out the same id for every add, so created posts and
+// comments keep the local id they were given when the request started.
+
+export interface CreatedPost {
+  post: IPost;
+  // "pending" until the add request settles
+  status: "pending" | "saved";
+}
+
+// The fields an edit can change
+export type PostEdit = Partial<
+  Pick<IPost, "title" | "body" | "tags" | "imageUrl">
+>;
+
+export interface PostOverlay {
+  createdPosts: CreatedPost[];
+  // Edits to server posts, by post id; local posts are edited in place
+  editedPosts: Record<string, PostEdit>;
+  deletedIds: string[];
+  // Hidden while their delete can still be undone. Never saved, so closing
+  // the tab during the undo window undoes the delete.
+  pendingDeletedIds: string[];
+}
+
+const LOCAL_ID_PREFIX = "local-";
+
+const EMPTY_OVERLAY: PostOverlay = {
+  createdPosts: [],
+  editedPosts: {},
+  deletedIds: [],
+  pendingDeletedIds: [],
+};
+
+// Adds that never settled (e.g. the tab was closed) are dropped, and posts
+// saved before a field existed get its default
+const savedPostSchema = z.object({
+  post: postSchema,
+  status: z.literal("saved"),
+});
+
+const postEditSchema = postSchema
+  .pick({ title: true, body: true, tags: true, imageUrl: true })
+  .partial();
+
+const localOverlayStorage = createLocalStorage<PostOverlay>(
+  "postOverlay",
+  EMPTY_OVERLAY,
+  (stored) => {
+    const overlay = z.record(z.unknown()).catch({}).parse(stored);
+    return {
+      createdPosts: parseStoredList(overlay.createdPosts, savedPostSchema),
+      editedPosts: parseStoredRecord(overlay.editedPosts, postEditSchema),
+      deletedIds: parseStoredList(overlay.deletedIds, z.string()),
+      pendingDeletedIds: [],
+    };
+  }
+);
+
+const overlayStore = createStore<PostOverlay>(
+  {
+    load: localOverlayStorage.load,
+    save: (overlay) =>
+      localOverlayStorage.save({ ...overlay, pendingDeletedIds: [] }),
+  },
+  EMPTY_OVERLAY
+);
+
+const updateOverlay = (
+  update: (overlay: PostOverlay) => Partial<PostOverlay>
+) => {
+  const overlay = overlayStore.get();
+  overlayStore.set({ ...overlay, ...update(overlay) });
+};
+
+const updateCreatedPosts = (
+  update: (createdPosts: CreatedPost[]) => CreatedPost[]
+) =>
+  updateOverlay(({ createdPosts }) => ({
+    createdPosts: update(createdPosts),
+  }));
+
+export const createLocalPostId = () =>
+  `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`;
+
+// Posts created in this browser; the server has never heard of these ids
+export const isLocalPostId = (postId: string) =>
+  postId.startsWith(LOCAL_ID_PREFIX);
+
+export const postOverlayStore = {
+  ...overlayStore,
+  getCreatedPost: (postId: string) =>
+    overlayStore.get().createdPosts.find(({ post }) => post.id === postId)
+      ?.post,
+  addCreatedPost: (post: IPost) =>
+    updateCreatedPosts((createdPosts) => [
+      { post, status: "pending" },
+      ...createdPosts,
+    ]),
+  saveCreatedPost: (postId: string, data: Partial<IPost>) =>
+    updateCreatedPosts((createdPosts) =>
+      createdPosts.map((createdPost) =>
+        createdPost.post.id === postId
+          ? {
+              post: { ...createdPost.post, ...data, id: postId },
+              status: "saved",
+            }
+          : createdPost
+      )
+    ),
+  removeCreatedPost: (postId: string) =>
+    updateCreatedPosts((createdPosts) =>
+      createdPosts.filter(({ post }) => post.id !== postId)
+    ),
+  getPostEdit: (postId: string): PostEdit | undefined =>
+    overlayStore.get().editedPosts[postId],
+  // Replaces the post's edit; undefined drops it, e.g. to roll back
+  setPostEdit: (postId: string, edit: PostEdit | undefined) =>
+    updateOverlay(({ editedPosts }) => {
+      const next = { ...editedPosts };
+      if (edit) {
+        next[postId] = edit;
+      } else {
+        delete next[postId];
+      }
+      return { editedPosts: next };
+    }),
+  // Starts a delete: the post is hidden, but only in memory
+  hidePost: (postId: string) =>
+    updateOverlay(({ pendingDeletedIds }) => ({
+      pendingDeletedIds: pendingDeletedIds.includes(postId)
+        ? pendingDeletedIds
+        : [...pendingDeletedIds, postId],
+    })),
+  // The undo window passed and the delete went through; from now on the
+  // post stays hidden after a reload too
+  confirmDelete: (postId: string) =>
+    updateOverlay(({ deletedIds, pendingDeletedIds }) => ({
+      deletedIds: deletedIds.includes(postId)
+        ? deletedIds
+        : [...deletedIds, postId],
+      pendingDeletedIds: pendingDeletedIds.filter((id) => id !== postId),
+    })),
+  showPost: (postId: string) =>
+    updateOverlay(({ pendingDeletedIds }) => ({
+      pendingDeletedIds: pendingDeletedIds.filter((id) => id !== postId),
+    })),
+};
+
+export const isPendingPost = (overlay: PostOverlay, postId: string) =>
+  overlay.createdPosts.some(
+    ({ post, status }) => post.id === postId && status === "pending"
+  );
+
+export const applyPostEdit = (
+  post: IPost,
+  { editedPosts }: PostOverlay
+): IPost =>
+  Object.hasOwn(editedPosts, post.id)
+    ? { ...post, ...editedPosts[post.id] }
+    : post;
+
+// Deleted for good, i.e. the undo window has passed
+export const isDeletedPost = (overlay: PostOverlay, postId: string) =>
+  overlay.deletedIds.includes(postId);
+
+const isVisiblePost = (post: IPost, overlay: PostOverlay) =>
+  !isDeletedPost(overlay, post.id) &&
+  !overlay.pendingDeletedIds.includes(post.id);
+
+// Deleted posts are taken out and edits applied
+export const applyPostsOverlay = (posts: IPost[], overlay: PostOverlay) =>
+  posts
+    .filter((post) => isVisiblePost(post, overlay))
+    .map((post) => applyPostEdit(post, overlay));
+
+// `total` stays the server's, so every page agrees on the page count; a page
+// with a deleted post simply shows one post fewer
+export const applyPostOverlay = (
+  page: IPostResponse,
+  overlay: PostOverlay
+): IPostResponse => ({
+  ...page,
+  posts: applyPostsOverlay(page.posts, overlay),
+});
+
+// Posts created in this browser, newest first. They are listed apart from the
+// server's pages, which they can't be sorted or paginated into. When the list
+// is filtered by tag, only local posts with that tag are included.
+export const getLocalPosts = (
+  overlay: PostOverlay,
+  tag: string | null = null
+) =>
+  overlay.createdPosts
+    .map(({ post }) => post)
+    .filter(
+      (post) =>
+        isVisiblePost(post, overlay) && (!tag || post.tags.includes(tag))
+    );
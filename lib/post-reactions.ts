@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { createLocalStore, parseStoredRecord } from "@/lib/local-store";
+import { IPostReactions } from "@/types/post";
+
+// The current user's reaction to each post, by post id. The counts the server
+// returns never include this user, so they are added on top when shown (see
+// getReactionCounts).
+
+const postReactionSchema = z.enum(["like", "dislike"]);
+
+export type PostReaction = z.infer<typeof postReactionSchema>;
+
+export type PostReactions = Record<string, PostReaction>;
+
+const EMPTY_REACTIONS: PostReactions = {};
+
+const reactionsStore = createLocalStore<PostReactions>(
+  "postReactions",
+  EMPTY_REACTIONS,
+  (stored) => parseStoredRecord(stored, postReactionSchema)
+);
+
+export const postReactionStore = {
+  ...reactionsStore,
+  getReaction: (postId: string): PostReaction | undefined =>
+    reactionsStore.get()[postId],
+  // null takes the reaction back
+  setReaction: (postId: string, reaction: PostReaction | null) => {
+    const next = { ...reactionsStore.get() };
+    if (reaction) {
+      next[postId] = reaction;
+    } else {
+      delete next[postId];
+    }
+    reactionsStore.set(next);
+  },
+};
+
+export const getReactionCounts = (
+  counts: IPostReactions,
+  reaction: PostReaction | undefined
+): IPostReactions => ({
+  likes: counts.likes + (reaction === "like" ? 1 : 0),
+  dislikes: counts.dislikes + (reaction === "dislike" ? 1 : 0),
+});
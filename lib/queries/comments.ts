@@ -0,0 +1,66 @@
+import { apiClient } from "@/lib/api-client";
+import { isLocalPostId } from "@/lib/post-overlay";
+import { queryKeys } from "@/lib/query-keys";
+import { commentResponseSchema, ICommentResponse } from "@/types/comment";
+import { InfiniteData } from "@tanstack/react-query";
+
+export const MAX_COMMENT_PER_PAGE = 10;
+
+const getCommentsPage = (postId: string, page: number, signal: AbortSignal) => {
+  const skip = (page - 1) * MAX_COMMENT_PER_PAGE;
+
+  // Posts created in this browser can't have comments on the server
+  if (isLocalPostId(postId)) {
+    return Promise.resolve<ICommentResponse>({
+      comments: [],
+      total: 0,
+      skip,
+      limit: MAX_COMMENT_PER_PAGE,
+    });
+  }
+
+  return apiClient.get(`/posts/${postId}/comments`, {
+    schema: commentResponseSchema,
+    params: { limit: MAX_COMMENT_PER_PAGE, skip },
+    signal,
+  });
+};
+
+// Infinite query options: one page per "load more"
+export const getComments = (postId: string) => ({
+  queryKey: queryKeys.comments.byPost(postId),
+  queryFn: ({
+    signal,
+    pageParam,
+  }: {
+    signal: AbortSignal;
+    pageParam: number;
+  }) => getCommentsPage(postId, pageParam, signal),
+  initialPageParam: 1,
+  // An empty page ends the list even if `total` promises more, otherwise the
+  // list would keep asking for pages that never come
+  getNextPageParam: (
+    lastPage: ICommentResponse,
+    _allPages: ICommentResponse[],
+    lastPageParam: number
+  ) =>
+    lastPage.comments.length > 0 &&
+    lastPage.skip + lastPage.comments.length < lastPage.total
+      ? lastPageParam + 1
+      : undefined,
+  enabled: !!postId,
+});
+
+// The loaded pages as one response, so the UI (and the comment overlay) can
+// treat them as a single list
+export const flattenCommentPages = ({
+  pages,
+}: InfiniteData<ICommentResponse, number>): ICommentResponse => {
+  const comments = pages.flatMap((page) => page.comments);
+  return {
+    comments,
+    total: pages[pages.length - 1]?.total ?? 0,
+    skip: 0,
+    limit: comments.length,
+  };
+};
@@ -0,0 +1,143 @@
+import { z } from "zod";
+import { API_BASE_URL, apiClient } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-error";
+import { isLocalPostId, postOverlayStore } from "@/lib/post-overlay";
+import { getComments } from "@/lib/queries/comments";
+import { getQueryClient } from "@/lib/query-client";
+import { queryKeys } from "@/lib/query-keys";
+import {
+  postResponseSchema,
+  postSchema,
+  postTagListSchema,
+} from "@/types/post";
+
+export const MAX_POST_PER_PAGE: number = 9;
+
+// Not a dummyjson field: see getPostsByLikes
+export const LIKES_SORT = "likes";
+
+// With a tag only that tag's posts are listed, paginated the same way
+const getPostsPath = (tag: string | null) =>
+  tag ? `/posts/tag/${encodeURIComponent(tag)}` : "/posts";
+
+// dummyjson only sorts by top-level fields, so sorting by likes fetches every
+// post (limit=0 means all of them) and sorts and pages them here. The full
+// list is cached on its own, so moving between pages doesn't refetch it.
+const getPostsByLikes = async (
+  order: string | null,
+  page: string,
+  tag: string | null
+) => {
+  const { posts, total } = await getQueryClient().fetchQuery({
+    queryKey: queryKeys.posts.everything(tag),
+    queryFn: ({ signal }) =>
+      apiClient.get(getPostsPath(tag), {
+        schema: postResponseSchema,
+        params: { limit: 0 },
+        signal,
+      }),
+    staleTime: 300000,
+  });
+  const direction = order === "asc" ? 1 : -1;
+  const skip = (+page - 1) * MAX_POST_PER_PAGE;
+  return {
+    posts: [...posts]
+      .sort((a, b) => direction * (a.reactions.likes - b.reactions.likes))
+      .slice(skip, skip + MAX_POST_PER_PAGE),
+    total,
+    skip,
+    limit: MAX_POST_PER_PAGE,
+  };
+};
+
+export const getPosts = async (
+  sortBy: string | null = null,
+  order: string | null = null,
+  page: string,
+  tag: string | null = null
+) => {
+  if (sortBy === LIKES_SORT) return getPostsByLikes(order, page, tag);
+  return apiClient.get(getPostsPath(tag), {
+    schema: postResponseSchema,
+    params: {
+      page,
+      limit: MAX_POST_PER_PAGE,
+      skip: (+page - 1) * MAX_POST_PER_PAGE,
+      ...(sortBy && order && { sortBy, order }),
+    },
+  });
+};
+
+export const getPostsQueryOptions = (
+  sortBy: string | null,
+  order: string | null,
+  page: string,
+  tag: string | null = null
+) => ({
+  queryKey: queryKeys.posts.list({ sortBy, order, page, tag }),
+  queryFn: () => getPosts(sortBy, order, page, tag),
+  staleTime: 300000,
+  enabled: Boolean(sortBy) || Boolean(order) || Boolean(page),
+});
+
+// What the API answers for a post it doesn't have
+export const postNotFoundError = (postId: string) =>
+  new ApiError({
+    kind: "http",
+    url: `${API_BASE_URL}/posts/${postId}`,
+    status: 404,
+  });
+
+// Posts created in this browser only exist in the post overlay
+const getLocalPost = async (postId: string) => {
+  const post = postOverlayStore.getCreatedPost(postId);
+  if (!post) throw postNotFoundError(postId);
+  return post;
+};
+
+export const getPost = (postId: string) => ({
+  queryKey: queryKeys.posts.detail(postId),
+  queryFn: ({ signal }: { signal: AbortSignal }) =>
+    isLocalPostId(postId)
+      ? getLocalPost(postId)
+      : apiClient.get(`/posts/${postId}`, { schema: postSchema, signal }),
+  enabled: Boolean(postId),
+  staleTime: 5000,
+});
+
+// The tag list hardly ever changes, so it is fetched once per session
+export const getPostTags = () => ({
+  queryKey: queryKeys.posts.tags(),
+  queryFn: ({ signal }: { signal: AbortSignal }) =>
+    apiClient.get("/posts/tags", { schema: postTagListSchema, signal }),
+  staleTime: Infinity,
+});
+
+const postTagsOnlySchema = z.object({
+  posts: z.array(postSchema.pick({ tags: true })),
+});
+
+// dummyjson's tag list has no counts, so every post's tags are fetched in one
+// request (limit=0 means all of them) and counted here
+export const getPostTagCounts = () => ({
+  queryKey: queryKeys.posts.tagCounts(),
+  queryFn: async ({ signal }: { signal: AbortSignal }) => {
+    const { posts } = await apiClient.get("/posts", {
+      schema: postTagsOnlySchema,
+      params: { limit: 0, select: "tags" },
+      signal,
+    });
+
+    const counts: Record<string, number> = {};
+    posts.forEach(({ tags }) =>
+      tags.forEach((tag) => {
+        counts[tag] = (counts[tag] ?? 0) + 1;
+      })
+    );
+    return counts;
+  },
+  staleTime: Infinity,
+});
+
+export const getPostDetails = (postId: string) =>
+  [{ ...getPost(postId) }, { ...getComments(postId) }] as const;
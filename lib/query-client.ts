@@ -0,0 +1,53 @@
+// Shared by the client provider and server components, so it must not be
+// marked 'use client'
+import {
+  defaultShouldDehydrateQuery,
+  isServer,
+  QueryClient,
+} from "@tanstack/react-query";
+import { isApiError } from "@/lib/api-error";
+
+const MAX_RETRIES = 3;
+
+function makeQueryClient() {
+  return new QueryClient({
+    defaultOptions: {
+      queries: {
+        // With SSR, we usually want to set some default staleTime
+        // above 0 to avoid refetching immediately on the client
+        staleTime: 60 * 1000,
+        // Don't retry requests the server has already rejected (4xx). On
+        // the server a failed prefetch goes straight to the error boundary
+        // instead of holding up the response, as TanStack does by default
+        retry: (failureCount, error) => {
+          if (isServer) return false;
+          if (isApiError(error) && !error.isRetryable) return false;
+          return failureCount < MAX_RETRIES;
+        },
+      },
+      dehydrate: {
+        // Also send queries that are still in flight, so server components
+        // can kick off a prefetch without awaiting it and stream the result
+        shouldDehydrateQuery: (query) =>
+          defaultShouldDehydrateQuery(query) ||
+          query.state.status === "pending",
+      },
+    },
+  });
+}
+
+let browserQueryClient: QueryClient | undefined = undefined;
+
+export function getQueryClient() {
+  if (isServer) {
+    // Server: always make a new query client
+    return makeQueryClient();
+  } else {
+    // Browser: make a new query client if we don't already have one
+    // This is very important, so we don't re-make a new client if React
+    // suspends during the initial render. This may not be needed if we
+    // have a suspense boundary BELOW the creation of the query client
+    if (!browserQueryClient) browserQueryClient = makeQueryClient();
+    return browserQueryClient;
+  }
+}
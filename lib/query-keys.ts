@@ -0,0 +1,48 @@
+// Every query key in the app comes from here. Keys are hierarchical, so a
+// prefix (e.g. postKeys.lists()) matches everything below it when
+// invalidating, prefetching or reading from the cache.
+
+export interface PostsListParams {
+  sortBy: string | null;
+  order: string | null;
+  page: string;
+  tag: string | null;
+}
+
+const postKeys = {
+  all: ["posts"] as const,
+  lists: () => [...postKeys.all, "list"] as const,
+  list: (params: PostsListParams) => [...postKeys.lists(), params] as const,
+  // Every post at once, or every post with the tag
+  everything: (tag: string | null) =>
+    [...postKeys.all, "everything", tag] as const,
+  details: () => [...postKeys.all, "detail"] as const,
+  detail: (id: string) => [...postKeys.details(), id] as const,
+  searches: () => [...postKeys.all, "search"] as const,
+  search: (query: string | null) => [...postKeys.searches(), query] as const,
+  tags: () => [...postKeys.all, "tags"] as const,
+  tagCounts: () => [...postKeys.tags(), "counts"] as const,
+};
+
+const commentKeys = {
+  all: ["comments"] as const,
+  byPost: (postId: string) => [...commentKeys.all, "post", postId] as const,
+};
+
+const userKeys = {
+  all: ["users"] as const,
+  detail: (id: string | undefined) =>
+    [...userKeys.all, "detail", id] as const,
+};
+
+const todoKeys = {
+  all: ["todos"] as const,
+  lists: () => [...todoKeys.all, "list"] as const,
+};
+
+export const queryKeys = {
+  posts: postKeys,
+  comments: commentKeys,
+  users: userKeys,
+  todos: todoKeys,
+};
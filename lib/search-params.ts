@@ -0,0 +1,18 @@
+import {
+  createSearchParamsCache,
+  parseAsString,
+  parseAsStringLiteral,
+} from "nuqs/server";
+
+export const orderValues = ["asc", "desc"] as const;
+
+// URL state of the posts list, read by the page on the server and by
+// usePosts in the browser so both resolve to the same query key
+export const postsSearchParams = {
+  order: parseAsStringLiteral(orderValues),
+  sortBy: parseAsString,
+  tag: parseAsString,
+  page: parseAsString.withDefault("1"),
+};
+
+export const postsSearchParamsCache = createSearchParamsCache(postsSearchParams);
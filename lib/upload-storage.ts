@@ -0,0 +1,44 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { IMAGE_EXTENSIONS, ImageType } from "@/lib/image";
+
+// Uploaded images live on the server's disk; posts only hold their URL.
+// Server-only.
+
+const UPLOAD_DIR = path.join(tmpdir(), "query-gg-uploads");
+
+export const MAX_UPLOAD_SIZE = 5 * 1024 * 1024;
+
+// Only names we generated, so a request can't read outside UPLOAD_DIR
+const FILE_NAME_PATTERN = /^[0-9a-f-]{36}\.(jpg|png|webp|gif)$/;
+
+// Returns the stored file name
+export const saveUpload = async (file: File, type: ImageType) => {
+  const name = `${randomUUID()}.${IMAGE_EXTENSIONS[type]}`;
+
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  await writeFile(
+    path.join(UPLOAD_DIR, name),
+    Buffer.from(await file.arrayBuffer())
+  );
+
+  return name;
+};
+
+export const readUpload = async (name: string) => {
+  if (!FILE_NAME_PATTERN.test(name)) return null;
+
+  const extension = path.extname(name).slice(1);
+  const contentType = Object.entries(IMAGE_EXTENSIONS).find(
+    ([, ext]) => ext === extension
+  )?.[0];
+
+  try {
+    const data = await readFile(path.join(UPLOAD_DIR, name));
+    return { data, contentType: contentType ?? "application/octet-stream" };
+  } catch {
+    return null;
+  }
+};
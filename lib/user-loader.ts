@@ -0,0 +1,64 @@
+import { API_BASE_URL, localApiClient } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-error";
+import { IUser, userBatchResponseSchema } from "@/types/user";
+
+// Every post card and comment looks up its author. Lookups requested in the
+// same tick are collected and fetched with a single request to
+// /api/users, then handed back to each caller. Browser only.
+
+// Matches the route handler's limit
+const MAX_BATCH_SIZE = 50;
+
+interface PendingLookup {
+  resolve: (user: IUser) => void;
+  reject: (error: unknown) => void;
+}
+
+let queue = new Map<string, PendingLookup[]>();
+let isFlushScheduled = false;
+
+const fetchBatch = async (batch: Map<string, PendingLookup[]>) => {
+  try {
+    const { users } = await localApiClient.get("/users", {
+      schema: userBatchResponseSchema,
+      params: { ids: [...batch.keys()].join(",") },
+    });
+
+    batch.forEach((lookups, id) => {
+      const user = users.find((user) => user.id === id);
+      // Same error a direct /users/{id} request would have thrown
+      const notFound = new ApiError({
+        kind: "http",
+        url: `${API_BASE_URL}/users/${id}`,
+        status: 404,
+      });
+
+      lookups.forEach(({ resolve, reject }) =>
+        user ? resolve(user) : reject(notFound)
+      );
+    });
+  } catch (error) {
+    batch.forEach((lookups) => lookups.forEach(({ reject }) => reject(error)));
+  }
+};
+
+const flush = () => {
+  const ids = [...queue.keys()];
+  for (let start = 0; start < ids.length; start += MAX_BATCH_SIZE) {
+    const chunk = ids.slice(start, start + MAX_BATCH_SIZE);
+    fetchBatch(new Map(chunk.map((id) => [id, queue.get(id) ?? []])));
+  }
+
+  queue = new Map();
+  isFlushScheduled = false;
+};
+
+export const loadUser = (id: string) =>
+  new Promise<IUser>((resolve, reject) => {
+    queue.set(id, [...(queue.get(id) ?? []), { resolve, reject }]);
+
+    if (!isFlushScheduled) {
+      isFlushScheduled = true;
+      setTimeout(flush, 0);
+    }
+  });
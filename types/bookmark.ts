@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { idSchema } from "./id";
+
+// Shape of an exported bookmark list
+export const bookmarkExportSchema = z.object({
+  version: z.literal(1),
+  postIds: z.array(idSchema),
+});
+
+export type IBookmarkExport = z.infer<typeof bookmarkExportSchema>;
@@ -1,16 +1,26 @@
-export interface IComment {
-  id: string;
-  body: string;
-  postId: string;
-  user: {
-    id: string;
-    fullName: string;
-  };
-}
+import { z } from "zod";
+import { idSchema } from "./id";
 
-export interface ICommentResponse {
-  comments: IComment[] | [];
-  total: number;
-  skip: number;
-  limit: number;
-}
+export const commentSchema = z.object({
+  id: idSchema,
+  body: z.string(),
+  postId: idSchema,
+  user: z.object({
+    id: idSchema,
+    fullName: z.string(),
+  }),
+  // Replies only exist locally (see lib/comment-overlay), dummyjson has no
+  // threads
+  parentId: z.string().optional(),
+});
+
+export const commentResponseSchema = z.object({
+  comments: z.array(commentSchema),
+  total: z.number(),
+  skip: z.number(),
+  limit: z.number(),
+});
+
+export type IComment = z.infer<typeof commentSchema>;
+
+export type ICommentResponse = z.infer<typeof commentResponseSchema>;
@@ -0,0 +1,6 @@
+import { z } from "zod";
+
+// dummyjson ids are numbers while the app keys everything by string. Unlike
+// z.coerce.string(), a missing or null id fails validation instead of
+// becoming "undefined" or "null".
+export const idSchema = z.union([z.string(), z.number()]).transform(String);
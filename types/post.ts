@@ -1,15 +1,42 @@
-export interface IPost {
-  id: string;
-  title: string;
-  body: string;
-  tags: string[];
-  imageUrl?: string;
-  userId: string;
-}
-
-export interface IPostResponse {
-  posts: IPost[];
-  total: number;
-  skip: number;
-  limit: number;
-}
+import { z } from "zod";
+import { idSchema } from "./id";
+
+export const postReactionsSchema = z.object({
+  likes: z.number(),
+  dislikes: z.number(),
+});
+
+export const postSchema = z.object({
+  id: idSchema,
+  title: z.string(),
+  body: z.string(),
+  tags: z.array(z.string()).default([]),
+  imageUrl: z.string().optional(),
+  userId: idSchema,
+  // Missing on posts that were just created
+  reactions: postReactionsSchema.default({ likes: 0, dislikes: 0 }),
+  views: z.number().default(0),
+});
+
+export const postResponseSchema = z.object({
+  posts: z.array(postSchema),
+  total: z.number(),
+  skip: z.number(),
+  limit: z.number(),
+});
+
+export const postTagSchema = z.object({
+  slug: z.string(),
+  name: z.string(),
+  url: z.string(),
+});
+
+export const postTagListSchema = z.array(postTagSchema);
+
+export type IPost = z.infer<typeof postSchema>;
+
+export type IPostReactions = z.infer<typeof postReactionsSchema>;
+
+export type IPostResponse = z.infer<typeof postResponseSchema>;
+
+export type IPostTag = z.infer<typeof postTagSchema>;
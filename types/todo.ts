@@ -1,13 +1,20 @@
-export interface ITodo {
-  id: string;
-  todo: string;
-  completed: boolean;
-  userId: string;
-}
-
-export interface ITodoResponse {
-  todos: ITodo[];
-  total: number;
-  skip: number;
-  limit: number;
-}
+import { z } from "zod";
+import { idSchema } from "./id";
+
+export const todoSchema = z.object({
+  id: idSchema,
+  todo: z.string(),
+  completed: z.boolean(),
+  userId: idSchema,
+});
+
+export const todoResponseSchema = z.object({
+  todos: z.array(todoSchema),
+  total: z.number(),
+  skip: z.number(),
+  limit: z.number(),
+});
+
+export type ITodo = z.infer<typeof todoSchema>;
+
+export type ITodoResponse = z.infer<typeof todoResponseSchema>;
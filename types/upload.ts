@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const uploadSchema = z.object({
+  url: z.string(),
+});
+
+export type IUpload = z.infer<typeof uploadSchema>;
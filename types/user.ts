@@ -1,16 +1,25 @@
-export interface IUser {
-  id: string;
-  firstName: string;
-  lastName: string;
-  age: number;
-  gender: "female" | "male";
-  email: string;
-  image: string;
-  birthDate: string;
-  address: {
-    address: string;
-    city: string;
-    state: string;
-  };
-  country: string;
-}
+import { z } from "zod";
+import { idSchema } from "./id";
+
+export const userSchema = z.object({
+  id: idSchema,
+  firstName: z.string(),
+  lastName: z.string(),
+  age: z.number(),
+  gender: z.enum(["female", "male"]),
+  email: z.string(),
+  image: z.string(),
+  birthDate: z.string(),
+  address: z.object({
+    address: z.string(),
+    city: z.string(),
+    state: z.string(),
+  }),
+  country: z.string().optional(),
+});
+
+export const userBatchResponseSchema = z.object({
+  users: z.array(userSchema),
+});
+
+export type IUser = z.infer<typeof userSchema>;